@@ -10,18 +10,12 @@ export function Layout() {
         {/* Using NavLink for active styling */}
         <NavLink href="/">Home</NavLink>
         <NavLink href="/about">About</NavLink>
-        <NavLink href="/users" match="prefix">
-          Users
-        </NavLink>
-        <NavLink href="/search" match="prefix">
-          Search
-        </NavLink>
+        <NavLink href="/users">Users</NavLink>
+        <NavLink href="/search">Search</NavLink>
         <NavLink href="/edit">Edit Form</NavLink>
         <NavLink href="/counter">Counter</NavLink>
         <NavLink href="/nav-options">Nav Options</NavLink>
-        <NavLink href="/settings" match="prefix">
-          Settings
-        </NavLink>
+        <NavLink href="/settings">Settings</NavLink>
       </nav>
       <main>
         <p style={{ color: "#666", fontSize: "0.9rem" }}>
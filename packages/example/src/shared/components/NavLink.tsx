@@ -1,18 +1,18 @@
-import { useLocation } from "@funstack/router";
+import { Link } from "@funstack/router";
 import type { CSSProperties, ReactNode } from "react";
 
 /**
- * Example: Active Link Styling with useLocation
+ * Example: Active Link Styling with Link
  *
  * A navigation link component that highlights when the current route matches.
- * Uses useLocation() to detect the current path and apply active styles.
+ * Uses the status passed to Link's `style` function to apply active styles.
  */
 
 type Props = {
   href: string;
   children: ReactNode;
-  /** Match strategy: 'exact' or 'prefix' */
-  match?: "exact" | "prefix";
+  /** Only highlight on the exact path, not on paths below it */
+  end?: boolean;
 };
 
 const baseStyle: CSSProperties = {
@@ -34,17 +34,14 @@ const activeStyle: CSSProperties = {
   backgroundColor: "#007bff",
 };
 
-export function NavLink({ href, children, match = "exact" }: Props) {
-  const location = useLocation();
-
-  const isActive =
-    match === "exact"
-      ? location.pathname === href
-      : location.pathname.startsWith(href);
-
+export function NavLink({ href, children, end }: Props) {
   return (
-    <a href={href} style={isActive ? activeStyle : inactiveStyle}>
+    <Link
+      href={href}
+      end={end}
+      style={({ isActive }) => (isActive ? activeStyle : inactiveStyle)}
+    >
       {children}
-    </a>
+    </Link>
   );
 }
@@ -0,0 +1,211 @@
+import {
+  type AnchorHTMLAttributes,
+  type CSSProperties,
+  type MouseEvent,
+  type ReactNode,
+  useContext,
+} from "react";
+import { RouterContext } from "./context/RouterContext.js";
+import { RouteContext } from "./context/RouteContext.js";
+import { resolvePath } from "./core/resolvePath.js";
+import { isPlainLeftClick } from "./core/linkClick.js";
+import { useNavigation } from "./hooks/useNavigation.js";
+import type { MatchedRoute, RelativeTo } from "./types.js";
+
+/**
+ * Active state of a link, passed to function forms of
+ * `className`, `style` and `children`.
+ */
+export type LinkStatus = {
+  /** Whether the routes matching the link's path (or, unless `end`, below it) are rendered */
+  isActive: boolean;
+  /** Whether a navigation to the link's path is in progress */
+  isPending: boolean;
+};
+
+export type LinkProps = Omit<
+  AnchorHTMLAttributes<HTMLAnchorElement>,
+  "href" | "className" | "style" | "children"
+> & {
+  /**
+   * Destination URL. Relative paths resolve against the pathname matched
+   * by the enclosing route (see `relative`).
+   */
+  href: string;
+  /** Resolve relative paths against the enclosing route (default) or the leaf route */
+  relative?: RelativeTo;
+  /** Replace current history entry instead of pushing */
+  replace?: boolean;
+  /** State to associate with the navigation */
+  state?: unknown;
+  /** Ephemeral info for this navigation only (not persisted in history) */
+  info?: unknown;
+  /**
+   * Only be active when the current location matches the same routes as
+   * the link's path, not routes below them. Links matching no routes
+   * below the root (e.g. "/") always behave this way.
+   */
+  end?: boolean;
+  /** Run the destination's loaders when the link is hovered or focused */
+  prefetch?: boolean;
+  className?: string | ((status: LinkStatus) => string | undefined);
+  style?: CSSProperties | ((status: LinkStatus) => CSSProperties | undefined);
+  children?: ReactNode | ((status: LinkStatus) => ReactNode);
+};
+
+/**
+ * Anchor element aware of the router.
+ *
+ * Its active state follows the route tree: a link is active while the routes
+ * its path matches are rendered with the same params. A link to `/users` is
+ * active on `/users/1` when the `:id` route is a child of the `users` route,
+ * but not on `/usersettings`.
+ *
+ * @example
+ * ```tsx
+ * <Link
+ *   href="/users"
+ *   className={({ isActive }) => (isActive ? "active" : undefined)}
+ * >
+ *   Users
+ * </Link>
+ * ```
+ */
+export function Link({
+  href,
+  relative = "route",
+  replace,
+  state,
+  info,
+  end = false,
+  prefetch: shouldPrefetch = false,
+  className,
+  style,
+  children,
+  onClick,
+  onMouseEnter,
+  onFocus,
+  ...rest
+}: LinkProps): ReactNode {
+  const context = useContext(RouterContext);
+  const routeContext = useContext(RouteContext);
+
+  if (!context) {
+    throw new Error("Link must be used within a Router");
+  }
+
+  const { url, navigate, prefetch, navigateOnLinkClick, match } = context;
+  const navigation = useNavigation();
+
+  const base =
+    (relative === "leaf"
+      ? routeContext?.leafAbsolutePath
+      : routeContext?.absolutePath) ?? url.pathname;
+  const target = new URL(resolvePath(href, base), url);
+  const isSameOrigin = target.origin === url.origin;
+  const targetMatch = isSameOrigin ? match(target.pathname) : null;
+  const status: LinkStatus = {
+    isActive: isMatchActive(match(url.pathname), targetMatch, end),
+    isPending:
+      navigation.state === "loading" &&
+      isMatchActive(match(navigation.url.pathname), targetMatch, end),
+  };
+
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (
+      event.defaultPrevented ||
+      !isSameOrigin ||
+      !isPlainLeftClick(event) ||
+      (rest.target !== undefined && rest.target !== "_self") ||
+      rest.download !== undefined
+    ) {
+      return;
+    }
+    // Plain clicks are intercepted by the adapter on their own, except with
+    // adapters whose location is not the document's; only navigations with
+    // options need to go through navigate() otherwise
+    if (
+      navigateOnLinkClick ||
+      replace ||
+      state !== undefined ||
+      info !== undefined
+    ) {
+      event.preventDefault();
+      navigate(target.href, { replace, state, info });
+    }
+  };
+
+  const handlePrefetch = () => {
+    if (shouldPrefetch) {
+      prefetch(target.href);
+    }
+  };
+
+  return (
+    <a
+      {...rest}
+      // Same-origin links stay origin-relative, so server and client markup match
+      href={
+        isSameOrigin
+          ? `${target.pathname}${target.search}${target.hash}`
+          : target.href
+      }
+      aria-current={status.isActive ? "page" : undefined}
+      className={
+        typeof className === "function" ? className(status) : className
+      }
+      style={typeof style === "function" ? style(status) : style}
+      onClick={handleClick}
+      onMouseEnter={(event) => {
+        onMouseEnter?.(event);
+        handlePrefetch();
+      }}
+      onFocus={(event) => {
+        onFocus?.(event);
+        handlePrefetch();
+      }}
+    >
+      {typeof children === "function" ? children(status) : children}
+    </a>
+  );
+}
+
+/**
+ * Whether the routes matched by a link's path are rendered for the current
+ * location with the same params. Unless `end`, the current location may match
+ * further routes below them. Trailing routes that consume no path segment
+ * (index and pathless routes) do not have to match then.
+ */
+function isMatchActive(
+  current: MatchedRoute[] | null,
+  target: MatchedRoute[] | null,
+  end: boolean,
+): boolean {
+  if (!current || !target) {
+    return false;
+  }
+  let length = target.length;
+  if (!end) {
+    while (length > 0 && target[length - 1]!.pathname === "/") {
+      length--;
+    }
+  }
+  // A link matching no routes below the root is only active on its own path
+  const exact = end || length === 0;
+  if (exact) {
+    length = target.length;
+  }
+  if (exact ? current.length !== length : current.length < length) {
+    return false;
+  }
+  for (let i = 0; i < length; i++) {
+    if (
+      current[i]!.route !== target[i]!.route ||
+      current[i]!.pathname !== target[i]!.pathname
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
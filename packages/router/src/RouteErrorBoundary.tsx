@@ -0,0 +1,61 @@
+import { Component, type ReactNode } from "react";
+
+type RouteErrorBoundaryProps = {
+  /** Render the fallback for a caught error */
+  fallback: (error: unknown) => ReactNode;
+  /** The boundary resets when this key changes (e.g. on navigation or retry) */
+  resetKey: string;
+  children: ReactNode;
+};
+
+type RouteErrorBoundaryState = {
+  caught: { error: unknown } | null;
+  resetKey: string;
+};
+
+/**
+ * Error boundary placed around a route's subtree when the route
+ * defines an `errorComponent`.
+ */
+export class RouteErrorBoundary extends Component<
+  RouteErrorBoundaryProps,
+  RouteErrorBoundaryState
+> {
+  state: RouteErrorBoundaryState = {
+    caught: null,
+    resetKey: this.props.resetKey,
+  };
+
+  static getDerivedStateFromError(
+    error: unknown,
+  ): Partial<RouteErrorBoundaryState> {
+    return { caught: { error } };
+  }
+
+  static getDerivedStateFromProps(
+    props: RouteErrorBoundaryProps,
+    state: RouteErrorBoundaryState,
+  ): Partial<RouteErrorBoundaryState> | null {
+    if (props.resetKey !== state.resetKey) {
+      return { caught: null, resetKey: props.resetKey };
+    }
+    return null;
+  }
+
+  render(): ReactNode {
+    const { caught } = this.state;
+    if (caught) {
+      return this.props.fallback(caught.error);
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * Throws the given error while rendering.
+ * Used to surface errors that happened outside of rendering
+ * (e.g. a loader that threw synchronously) to the nearest error boundary.
+ */
+export function ThrowError({ error }: { error: unknown }): never {
+  throw error;
+}
@@ -0,0 +1,117 @@
+import { type ReactNode, Suspense, useEffect, useRef, useState } from "react";
+
+/**
+ * Tracks when the pending fallback became visible,
+ * shared between the fallback and the suspended content.
+ */
+type PendingTracker = {
+  /** Time the fallback became visible, or null if it is not shown */
+  shownAt: number | null;
+  /** Resolves when the minimum display time has passed */
+  minDuration: Promise<void> | null;
+};
+
+type RouteSuspenseProps = {
+  /** Element to render while the route is suspended */
+  fallback: ReactNode;
+  /** Delay before showing the fallback, in milliseconds */
+  pendingMs: number;
+  /** Minimum time the fallback stays visible once shown, in milliseconds */
+  pendingMinMs: number;
+  children: ReactNode;
+};
+
+/**
+ * Suspense boundary placed around a route's subtree when the route
+ * defines a `pendingComponent`.
+ *
+ * The fallback appears only after `pendingMs`, and once shown it stays
+ * for at least `pendingMinMs`, so fast loads do not flash a spinner.
+ */
+export function RouteSuspense({
+  fallback,
+  pendingMs,
+  pendingMinMs,
+  children,
+}: RouteSuspenseProps): ReactNode {
+  const trackerRef = useRef<PendingTracker>({
+    shownAt: null,
+    minDuration: null,
+  });
+
+  return (
+    <Suspense
+      fallback={
+        <DelayedFallback tracker={trackerRef.current} pendingMs={pendingMs}>
+          {fallback}
+        </DelayedFallback>
+      }
+    >
+      <MinPendingDuration
+        tracker={trackerRef.current}
+        pendingMinMs={pendingMinMs}
+      >
+        {children}
+      </MinPendingDuration>
+    </Suspense>
+  );
+}
+
+/**
+ * Renders the fallback after a delay and records when it became visible.
+ */
+function DelayedFallback({
+  tracker,
+  pendingMs,
+  children,
+}: {
+  tracker: PendingTracker;
+  pendingMs: number;
+  children: ReactNode;
+}): ReactNode {
+  const [visible, setVisible] = useState(pendingMs <= 0);
+
+  useEffect(() => {
+    if (visible) {
+      return;
+    }
+    const timer = setTimeout(() => setVisible(true), pendingMs);
+    return () => clearTimeout(timer);
+  }, [visible, pendingMs]);
+
+  useEffect(() => {
+    if (visible) {
+      tracker.shownAt ??= Date.now();
+    }
+  }, [visible, tracker]);
+
+  return visible ? children : null;
+}
+
+/**
+ * Keeps the boundary suspended until the fallback has been visible
+ * for at least `pendingMinMs`.
+ */
+function MinPendingDuration({
+  tracker,
+  pendingMinMs,
+  children,
+}: {
+  tracker: PendingTracker;
+  pendingMinMs: number;
+  children: ReactNode;
+}): ReactNode {
+  if (tracker.shownAt !== null) {
+    const remaining = tracker.shownAt + pendingMinMs - Date.now();
+    if (remaining > 0) {
+      tracker.minDuration ??= new Promise((resolve) =>
+        setTimeout(resolve, remaining),
+      );
+      // Throwing a Promise (rather than `use()`) keeps React 18 support
+      throw tracker.minDuration;
+    }
+    tracker.shownAt = null;
+    tracker.minDuration = null;
+  }
+  return children;
+}
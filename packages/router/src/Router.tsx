@@ -1,9 +1,12 @@
 import {
   type ReactNode,
+  startTransition,
   useCallback,
   useContext,
   useEffect,
+  useLayoutEffect,
   useMemo,
+  useRef,
   useState,
   useSyncExternalStore,
 } from "react";
@@ -13,18 +16,56 @@ import {
   BlockerContext,
   createBlockerRegistry,
 } from "./context/BlockerContext.js";
+import { PendingNavigationContext } from "./context/PendingNavigationContext.js";
 import {
   type NavigateOptions,
+  type MatchedRoute,
   type MatchedRouteWithData,
   type OnNavigateCallback,
   type FallbackMode,
-  type InternalRouteState,
   internalRoutes,
 } from "./types.js";
 import { matchRoutes } from "./core/matchRoutes.js";
+import { getMatchedPathname } from "./core/resolvePath.js";
+import {
+  getRouteIds,
+  getRouteStateVersion,
+  migrateRouteStates,
+  readRouteState,
+  setRouteState,
+  toKeyedRouteState,
+  validateRouteState,
+} from "./core/routeState.js";
+import {
+  getStateStorageKey,
+  persistRouteState,
+  restorePersistedRouteState,
+} from "./core/stateStorage.js";
+import {
+  parseSearchParams,
+  serializeSearchParams,
+} from "./core/searchParams.js";
 import { createAdapter } from "./core/createAdapter.js";
-import { executeLoaders, createLoaderRequest } from "./core/loaderCache.js";
+import type { LocationEntry, RouterAdapter } from "./core/RouterAdapter.js";
+import { startViewTransition } from "./core/viewTransition.js";
+import {
+  executeLoaders,
+  createLoaderRequest,
+  clearLoaderCacheForMatch,
+  evictLoaderCache,
+  prefetchLoaders,
+  LoaderError,
+  type LoaderCache,
+  type LoaderCacheLimits,
+} from "./core/loaderCache.js";
+import {
+  type HydrationData,
+  type LoaderDataCollector,
+  hydrateLoaderCache,
+} from "./core/hydration.js";
 import type { RouteDefinition } from "./route.js";
+import { RouteErrorBoundary, ThrowError } from "./RouteErrorBoundary.js";
+import { RouteSuspense } from "./RouteSuspense.js";
 
 export type RouterProps = {
   routes: RouteDefinition[];
@@ -41,37 +82,277 @@ export type RouterProps = {
    *
    * - `"none"` (default): Render nothing when Navigation API is unavailable
    * - `"static"`: Render matched routes without navigation capabilities (MPA behavior)
+   * - `"static-reload"`: Like `"static"`, but `navigate()` loads the target page
+   * - `"history"`: Emulate the Navigation API with the History API (SPA behavior)
    */
   fallback?: FallbackMode;
+  /**
+   * URL of the request being rendered, for server-side rendering.
+   *
+   * On the server, routes matching this URL are rendered and their loaders run.
+   * On the client, passing this prop tells the Router that the markup was
+   * rendered on the server, so it hydrates from the current location.
+   */
+  url?: string | URL;
+  /**
+   * Collector for loader results rendered on the server.
+   * Call `serialize()` on it after rendering to embed the results in the HTML.
+   */
+  loaderDataCollector?: LoaderDataCollector;
+  /**
+   * Loader results serialized on the server.
+   * Used to seed the loader cache on the first render, so loaders that
+   * already ran on the server are not executed again during hydration.
+   */
+  hydrationData?: HydrationData;
+  /**
+   * Animate route changes with the View Transitions API (default: false).
+   * Can be overridden per navigation with the `viewTransition` navigate option.
+   *
+   * The navigation direction (`"push"`, `"back"` or `"forward"`) is set as
+   * a view transition type.
+   */
+  viewTransition?: boolean;
+  /**
+   * Time in milliseconds after which prefetched loader results are discarded
+   * if no navigation has used them (default: 30000).
+   */
+  prefetchExpiryMs?: number;
+  /**
+   * Limits on the number of history entries with cached loader results,
+   * or on their estimated size (default: unlimited). Results of the least
+   * recently rendered entries other than the current one are evicted first,
+   * and their loaders run again when the entry is revisited.
+   */
+  loaderCacheLimits?: LoaderCacheLimits;
+  /**
+   * Cache for this Router's loader results, including prefetched ones
+   * (default: a new `Map`).
+   * Each Router owns its cache, so Routers never share loader results.
+   * Passing another cache switches the Router over to it.
+   *
+   * A Router whose first render suspends keeps the default cache when React
+   * retries it, but not when its parent re-renders before it commits. Pass a
+   * cache created outside the Suspense boundary to keep the results then.
+   */
+  loaderCache?: LoaderCache;
+  /**
+   * Adapter to navigate with instead of the one selected from the browser's
+   * capabilities and `fallback`: a `MemoryAdapter`, or any other `RouterAdapter`
+   * implementation (e.g. for embedded webviews or hash-based URLs).
+   * `fallback` and `loaderCache` are then ignored.
+   * Passing another adapter switches the Router over to it, including its
+   * loader cache.
+   */
+  adapter?: RouterAdapter;
+};
+
+/**
+ * `useLayoutEffect`, which React 18 warns about when rendering on the server.
+ */
+const useIsomorphicLayoutEffect =
+  typeof window === "undefined" ? useEffect : useLayoutEffect;
+
+/**
+ * An adapter created by a Router, with the props it was created from.
+ */
+type CreatedAdapter = {
+  fallback: FallbackMode;
+  loaderCache: LoaderCache | undefined;
+  adapter: RouterAdapter;
 };
 
-export function Router({
-  routes: inputRoutes,
-  onNavigate,
-  fallback = "none",
-}: RouterProps): ReactNode {
+/**
+ * Adapters created by the first render of Router elements that have not
+ * committed yet. React discards the state of a Router whose first render
+ * suspends, but retries with the same element, whose props object finds the
+ * adapter created for it instead of starting over with an empty default
+ * loader cache.
+ */
+const uncommittedAdapters = new WeakMap<RouterProps, CreatedAdapter>();
+
+export function Router(props: RouterProps): ReactNode {
+  const {
+    routes: inputRoutes,
+    onNavigate,
+    fallback = "none",
+    url: serverUrl,
+    loaderDataCollector,
+    hydrationData,
+    viewTransition = false,
+    prefetchExpiryMs = 30_000,
+    loaderCacheLimits,
+    loaderCache,
+    adapter: adapterProp,
+  } = props;
   const routes = internalRoutes(inputRoutes);
+  const hasServerUrl = serverUrl !== undefined;
+
+  // Use the given adapter, or one created based on browser capabilities and
+  // fallback setting. The Router owns the adapter it creates, and creates
+  // another only when `fallback` or `loaderCache` changes. The server URL
+  // only matters on the server, where it is fixed per request.
+  const [createdAdapter, setCreatedAdapter] = useState<CreatedAdapter | null>(
+    () => {
+      if (adapterProp) {
+        return null;
+      }
+      const uncommitted = uncommittedAdapters.get(props);
+      if (
+        uncommitted?.fallback === fallback &&
+        uncommitted.loaderCache === loaderCache
+      ) {
+        return uncommitted;
+      }
+      const created = {
+        fallback,
+        loaderCache,
+        adapter: createAdapter(fallback, serverUrl, loaderCache),
+      };
+      // Server renders never commit, and must not share adapters across requests
+      if (typeof window !== "undefined") {
+        uncommittedAdapters.set(props, created);
+      }
+      return created;
+    },
+  );
+  useEffect(() => {
+    uncommittedAdapters.delete(props);
+  }, [props]);
+  let adapter: RouterAdapter;
+  if (adapterProp) {
+    adapter = adapterProp;
+  } else if (
+    createdAdapter?.fallback === fallback &&
+    createdAdapter.loaderCache === loaderCache
+  ) {
+    adapter = createdAdapter.adapter;
+  } else {
+    adapter = createAdapter(fallback, serverUrl, loaderCache);
+    setCreatedAdapter({ fallback, loaderCache, adapter });
+  }
+
+  // Hydration data is only consumed on the first render
+  const hydrationDataRef = useRef(hydrationData);
 
-  // Create adapter once based on browser capabilities and fallback setting
-  const adapter = useMemo(() => createAdapter(fallback), [fallback]);
+  // Incremented to re-run loaders whose cached results were cleared
+  const [loaderRevision, setLoaderRevision] = useState(0);
+  // Number of revalidations whose loaders have not settled yet
+  const [revalidatingCount, setRevalidatingCount] = useState(0);
 
   // Create blocker registry once
   const [blockerRegistry] = useState(() => createBlockerRegistry());
 
-  // Subscribe to location changes via adapter
+  // Read when the location changes, so that changing it does not resubscribe
+  const viewTransitionRef = useRef(viewTransition);
+  useEffect(() => {
+    viewTransitionRef.current = viewTransition;
+  }, [viewTransition]);
+
+  // Location entry rendered in the last commit, and view transitions waiting for
+  // the next commit to finish their update
+  const committedEntryRef = useRef<LocationEntry | null>(null);
+  const commitListenersRef = useRef<(() => void)[]>([]);
+  // Location entry kept rendered until a view transition's update swaps in the
+  // new one. Renders for other reasons in the meantime (e.g. the pending
+  // navigation) must not show the new route before the browser captures the old one.
+  const heldEntryRef = useRef<{
+    adapter: RouterAdapter;
+    entry: LocationEntry;
+  } | null>(null);
+
+  // Subscribe to location changes via adapter.
+  // Navigations opted into view transitions are rendered inside the transition's update.
+  const subscribe = useCallback(
+    (callback: () => void) =>
+      adapter.subscribe((change) => {
+        if (!change || !(change.viewTransition ?? viewTransitionRef.current)) {
+          heldEntryRef.current = null;
+          callback();
+          return;
+        }
+        const committedEntry = committedEntryRef.current;
+        if (!heldEntryRef.current && committedEntry) {
+          heldEntryRef.current = { adapter, entry: committedEntry };
+        }
+        const started = startViewTransition(
+          change.direction,
+          () =>
+            new Promise((resolve) => {
+              heldEntryRef.current = null;
+              if (committedEntryRef.current === adapter.getSnapshot()) {
+                // Already rendered (e.g. by a later navigation's update)
+                resolve();
+              } else {
+                commitListenersRef.current.push(resolve);
+              }
+              callback();
+            }),
+        );
+        if (!started) {
+          heldEntryRef.current = null;
+          callback();
+        }
+      }),
+    [adapter],
+  );
   const locationEntry = useSyncExternalStore(
-    useCallback((callback) => adapter.subscribe(callback), [adapter]),
-    () => adapter.getSnapshot(),
-    () => adapter.getServerSnapshot(),
+    subscribe,
+    () => {
+      const held = heldEntryRef.current;
+      return held?.adapter === adapter ? held.entry : adapter.getSnapshot();
+    },
+    // When the markup was rendered on the server, hydrate with the current location
+    () => (hasServerUrl ? adapter.getSnapshot() : adapter.getServerSnapshot()),
+  );
+
+  // Finish the update of view transitions waiting for this location entry
+  useIsomorphicLayoutEffect(() => {
+    committedEntryRef.current = locationEntry;
+    for (const listener of commitListenersRef.current.splice(0)) {
+      listener();
+    }
+  }, [locationEntry]);
+
+  // Subscribe to the navigation in progress via adapter
+  const pendingNavigation = useSyncExternalStore(
+    useCallback(
+      (callback) => adapter.subscribePendingNavigation(callback),
+      [adapter],
+    ),
+    () => adapter.getPendingNavigation(),
+    () => null,
+  );
+  const pendingNavigationContextValue = useMemo(
+    () => ({ pendingNavigation }),
+    [pendingNavigation],
   );
 
-  // Set up navigation interception via adapter
+  // Set up navigation interception via adapter. Blockers are passed only
+  // while one is registered, so that adapters listen for page unloads only
+  // when something may block them. Interception is set up again as soon as
+  // that changes, before any navigation could skip a new blocker.
   useEffect(() => {
-    return adapter.setupInterception(
-      routes,
-      onNavigate,
-      blockerRegistry.checkAll,
-    );
+    let hasBlockers: boolean | null = null;
+    let cleanup: (() => void) | undefined;
+    const setup = () => {
+      if (blockerRegistry.hasBlockers() === hasBlockers) {
+        return;
+      }
+      hasBlockers = blockerRegistry.hasBlockers();
+      cleanup?.();
+      cleanup = adapter.setupInterception(
+        routes,
+        onNavigate,
+        hasBlockers ? blockerRegistry.checkAll : undefined,
+      );
+    };
+    setup();
+    const unsubscribe = blockerRegistry.subscribe(setup);
+    return () => {
+      unsubscribe();
+      cleanup?.();
+    };
   }, [adapter, routes, onNavigate, blockerRegistry]);
 
   // Navigate function from adapter
@@ -98,7 +379,75 @@ export function Router({
     [adapter],
   );
 
-  return useMemo(() => {
+  // Match current URL against routes and execute loaders.
+  // Kept apart from the context value so that revalidation status updates
+  // do not pick up loader results of a pending revalidation.
+  const matchedRoutesWithData = useMemo(() => {
+    if (locationEntry === null) {
+      return null;
+    }
+
+    const { url, key } = locationEntry;
+    const matched = matchRoutes(routes, url.pathname);
+    if (!matched) return null;
+
+    // Seed the cache with results from the server before running loaders
+    if (hydrationDataRef.current) {
+      hydrateLoaderCache(
+        hydrationDataRef.current,
+        url,
+        key,
+        adapter.loaderCache,
+      );
+      hydrationDataRef.current = undefined;
+    }
+
+    // Execute loaders (results are cached by location entry key)
+    const request = createLoaderRequest(url);
+    const signal = adapter.getIdleAbortSignal();
+    const results = executeLoaders(
+      matched,
+      key,
+      request,
+      signal,
+      adapter.loaderCache,
+    );
+    loaderDataCollector?.collect(url, results);
+    return results;
+    // loaderRevision re-runs loaders whose cached results were cleared
+  }, [locationEntry, routes, adapter, loaderDataCollector, loaderRevision]);
+
+  // Keep the loader cache within its limits and drop expired prefetched
+  // results once a location entry renders
+  const maxCacheEntries = loaderCacheLimits?.maxEntries;
+  const maxCacheBytes = loaderCacheLimits?.maxBytes;
+  useEffect(() => {
+    if (locationEntry === null) {
+      return;
+    }
+    evictLoaderCache(
+      locationEntry.key,
+      { maxEntries: maxCacheEntries, maxBytes: maxCacheBytes },
+      adapter.loaderCache,
+    );
+  }, [locationEntry, adapter, maxCacheEntries, maxCacheBytes]);
+
+  // Write navigation state migrated to the routes' current state versions
+  // back to the history entry, so that it is only migrated once
+  useEffect(() => {
+    if (locationEntry === null || matchedRoutesWithData === null) {
+      return;
+    }
+    const migrated = migrateRouteStates(
+      matchedRoutesWithData.map((match) => match.route),
+      locationEntry.state,
+    );
+    if (migrated) {
+      updateCurrentEntryState(migrated);
+    }
+  }, [locationEntry, matchedRoutesWithData, updateCurrentEntryState]);
+
+  const content = useMemo(() => {
     if (locationEntry === null) {
       // This happens either when Navigation API is unavailable (and no fallback),
       // or the current document is not fully active.
@@ -107,16 +456,57 @@ export function Router({
 
     const { url, key } = locationEntry;
 
-    // Match current URL against routes and execute loaders
-    const matchedRoutesWithData = (() => {
-      const matched = matchRoutes(routes, url.pathname);
-      if (!matched) return null;
+    const revalidateLoaders = (
+      shouldRevalidate: (match: MatchedRoute, index: number) => boolean,
+    ): Promise<void> => {
+      if (!matchedRoutesWithData) {
+        return Promise.resolve();
+      }
+      const matchIndexes: number[] = [];
+      matchedRoutesWithData.forEach((match, index) => {
+        if (match.route.loader && shouldRevalidate(match, index)) {
+          clearLoaderCacheForMatch(key, index, adapter.loaderCache);
+          matchIndexes.push(index);
+        }
+      });
+
+      // Run the cleared loaders right away so that their results can be awaited.
+      // The re-render picks them up from the cache.
+      const results = executeLoaders(
+        matchedRoutesWithData,
+        key,
+        createLoaderRequest(url),
+        adapter.getIdleAbortSignal(),
+        adapter.loaderCache,
+      );
+      setRevalidatingCount((count) => count + 1);
+      // Keep showing the current UI while revalidated data is loading
+      startTransition(() => {
+        setLoaderRevision((revision) => revision + 1);
+      });
+
+      return Promise.allSettled(
+        matchIndexes.map((index) => results[index]!.data),
+      ).then(() => {
+        setRevalidatingCount((count) => count - 1);
+      });
+    };
 
-      // Execute loaders (results are cached by location entry key)
-      const request = createLoaderRequest(url);
-      const signal = adapter.getIdleAbortSignal();
-      return executeLoaders(matched, key, request, signal);
-    })();
+    const prefetch = (to: string) => {
+      const targetUrl = new URL(to, url);
+      if (targetUrl.origin !== url.origin) {
+        return;
+      }
+      const matched = matchRoutes(routes, targetUrl.pathname);
+      if (matched) {
+        prefetchLoaders(
+          matched,
+          targetUrl,
+          Date.now() + prefetchExpiryMs,
+          adapter.loaderCache,
+        );
+      }
+    };
 
     const routerContextValue = {
       locationEntry,
@@ -124,6 +514,12 @@ export function Router({
       navigate,
       navigateAsync,
       updateCurrentEntryState,
+      revalidateLoaders,
+      prefetch,
+      navigateOnLinkClick: adapter.navigateOnLinkClick ?? false,
+      match: (pathname: string) => matchRoutes(routes, pathname),
+      loaderRevision,
+      isRevalidating: revalidatingCount > 0,
     };
 
     const blockerContextValue = { registry: blockerRegistry };
@@ -142,10 +538,20 @@ export function Router({
     navigateAsync,
     updateCurrentEntryState,
     locationEntry,
-    routes,
+    matchedRoutesWithData,
     adapter,
     blockerRegistry,
+    loaderRevision,
+    revalidatingCount,
+    routes,
+    prefetchExpiryMs,
   ]);
+
+  return (
+    <PendingNavigationContext.Provider value={pendingNavigationContextValue}>
+      {content}
+    </PendingNavigationContext.Provider>
+  );
 }
 
 type RouteRendererProps = {
@@ -170,31 +576,75 @@ function RouteRenderer({
   if (!routerContext) {
     throw new Error("RouteRenderer must be used within RouterContext");
   }
-  const { locationEntry, url, navigateAsync, updateCurrentEntryState } =
-    routerContext;
+  const {
+    locationEntry,
+    url,
+    navigate,
+    navigateAsync,
+    updateCurrentEntryState,
+    revalidateLoaders,
+    loaderRevision,
+  } = routerContext;
+
+  // Extract this route's state from internal structure, migrated to the
+  // route's state version and validated against its state schema.
+  // State persisted to storage fills in when the entry has none.
+  const routeIds = useMemo(
+    () => getRouteIds(matchedRoutes.map((matched) => matched.route)),
+    [matchedRoutes],
+  );
+  const routeId = routeIds[index];
+  const persist = route.persistState;
+  const storageKey = useMemo(
+    () => getStateStorageKey(routeId, params),
+    [routeId, params],
+  );
+  const internalState = useMemo(
+    () => toKeyedRouteState(locationEntry.state, routeIds),
+    [locationEntry.state, routeIds],
+  );
+  const routeState = useMemo(() => {
+    const storedState = persist
+      ? restorePersistedRouteState(persist, storageKey, internalState, routeId)
+      : internalState;
+    return validateRouteState(
+      route,
+      readRouteState(route, storedState, routeId),
+    );
+  }, [route, persist, storageKey, internalState, routeId]);
+  const stateVersion = getRouteStateVersion(route);
 
-  // Extract this route's state from internal structure
-  const internalState = locationEntry.state as InternalRouteState | undefined;
-  const routeState = internalState?.__routeStates?.[index];
+  // Mirror state written by this route to storage, if it persists state
+  const persistState = useCallback(
+    (state: unknown) => {
+      if (persist) {
+        persistRouteState(persist, storageKey, state, stateVersion);
+      }
+    },
+    [persist, storageKey, stateVersion],
+  );
 
   // Create stable setStateSync callback for this route's slice (synchronous via updateCurrentEntry)
   const setStateSync = useCallback(
     (stateOrUpdater: unknown | ((prev: unknown) => unknown)) => {
-      const currentStates =
-        (locationEntry.state as InternalRouteState | undefined)
-          ?.__routeStates ?? [];
-      const currentRouteState = currentStates[index];
-
       const newState =
         typeof stateOrUpdater === "function"
-          ? (stateOrUpdater as (prev: unknown) => unknown)(currentRouteState)
+          ? (stateOrUpdater as (prev: unknown) => unknown)(routeState)
           : stateOrUpdater;
 
-      const newStates = [...currentStates];
-      newStates[index] = newState;
-      updateCurrentEntryState({ __routeStates: newStates });
+      persistState(newState);
+      updateCurrentEntryState(
+        setRouteState(internalState, routeId, newState, stateVersion),
+      );
     },
-    [locationEntry.state, index, updateCurrentEntryState],
+    [
+      internalState,
+      routeId,
+      routeState,
+      stateVersion,
+      persistState,
+      updateCurrentEntryState,
+    ],
   );
 
   // Create stable setState callback for this route's slice (async via replace navigation)
@@ -202,36 +652,88 @@ function RouteRenderer({
     async (
       stateOrUpdater: unknown | ((prev: unknown) => unknown),
     ): Promise<void> => {
-      const currentStates =
-        (locationEntry.state as InternalRouteState | undefined)
-          ?.__routeStates ?? [];
-      const currentRouteState = currentStates[index];
-
       const newState =
         typeof stateOrUpdater === "function"
-          ? (stateOrUpdater as (prev: unknown) => unknown)(currentRouteState)
+          ? (stateOrUpdater as (prev: unknown) => unknown)(routeState)
           : stateOrUpdater;
 
-      const newStates = [...currentStates];
-      newStates[index] = newState;
-
+      persistState(newState);
       await navigateAsync(url.href, {
         replace: true,
-        state: { __routeStates: newStates },
+        state: setRouteState(internalState, routeId, newState, stateVersion),
       });
     },
-    [locationEntry.state, index, url, navigateAsync],
+    [
+      internalState,
+      routeId,
+      routeState,
+      stateVersion,
+      persistState,
+      url,
+      navigateAsync,
+    ],
   );
 
   // Create stable resetState callback
   const resetState = useCallback(() => {
-    const currentStates =
-      (locationEntry.state as InternalRouteState | undefined)?.__routeStates ??
-      [];
-    const newStates = [...currentStates];
-    newStates[index] = undefined;
-    updateCurrentEntryState({ __routeStates: newStates });
-  }, [locationEntry.state, index, updateCurrentEntryState]);
+    persistState(undefined);
+    updateCurrentEntryState(
+      setRouteState(internalState, routeId, undefined, stateVersion),
+    );
+  }, [
+    internalState,
+    routeId,
+    stateVersion,
+    persistState,
+    updateCurrentEntryState,
+  ]);
+
+  // Parse search params with this route's schema. A failure is rethrown
+  // inside the route's error boundary, like a synchronous loader error
+  const searchSchema = route.searchParams;
+  const parsedSearch = useMemo(() => {
+    if (!searchSchema) {
+      return undefined;
+    }
+    try {
+      return { search: parseSearchParams(searchSchema, url.searchParams) };
+    } catch (error) {
+      return { error };
+    }
+  }, [searchSchema, url]);
+
+  // Create stable setSearch callback. Keys owned by neither the previous nor
+  // the new search object (e.g. those of other routes) are kept.
+  const setSearch = useCallback(
+    (searchOrUpdater: unknown | ((prev: unknown) => unknown)) => {
+      const prevSearch =
+        parsedSearch && "search" in parsedSearch
+          ? parsedSearch.search
+          : undefined;
+      const nextSearch =
+        typeof searchOrUpdater === "function"
+          ? (searchOrUpdater as (prev: unknown) => unknown)(prevSearch)
+          : searchOrUpdater;
+
+      const nextUrl = new URL(url);
+      const searchParams = new URLSearchParams(nextUrl.search);
+      for (const search of [prevSearch, nextSearch]) {
+        if (search !== null && typeof search === "object") {
+          for (const key of Object.keys(search)) {
+            searchParams.delete(key);
+          }
+        }
+      }
+      for (const [key, value] of serializeSearchParams(nextSearch)) {
+        searchParams.append(key, value);
+      }
+      nextUrl.search = searchParams.toString();
+      navigate(nextUrl.pathname + nextUrl.search + nextUrl.hash, {
+        replace: true,
+      });
+    },
+    [parsedSearch, url, navigate],
+  );
 
   // Create outlet for child routes
   const outlet =
@@ -239,14 +741,32 @@ function RouteRenderer({
       <RouteRenderer matchedRoutes={matchedRoutes} index={index + 1} />
     ) : null;
 
+  const absolutePath = getMatchedPathname(matchedRoutes, index);
+  const leafAbsolutePath = getMatchedPathname(
+    matchedRoutes,
+    matchedRoutes.length - 1,
+  );
   const routeContextValue = useMemo(
-    () => ({ params, matchedPath: pathname, outlet }),
-    [params, pathname, outlet],
+    () => ({
+      params,
+      matchedPath: pathname,
+      absolutePath,
+      leafAbsolutePath,
+      outlet,
+    }),
+    [params, pathname, absolutePath, leafAbsolutePath, outlet],
   );
 
   // Render component with or without data prop based on loader presence
   // Always pass params, state, setState, resetState, and info props to components
   const renderComponent = () => {
+    // Rethrow synchronous loader errors inside the route's error boundary
+    if (data instanceof LoaderError) {
+      return <ThrowError error={data.error} />;
+    }
+    if (parsedSearch && "error" in parsedSearch) {
+      return <ThrowError error={parsedSearch.error} />;
+    }
     if (!Component) return outlet;
 
     const stateProps = {
@@ -254,6 +774,8 @@ function RouteRenderer({
       setState,
       setStateSync,
       resetState,
+      // Search props are only passed to routes with a searchParams schema
+      ...(parsedSearch && { search: parsedSearch.search, setSearch }),
     };
 
     // Ephemeral info from the current navigation
@@ -292,9 +814,43 @@ function RouteRenderer({
     return <ComponentWithoutData params={params} {...stateProps} info={info} />;
   };
 
+  const ErrorComponent = route.errorComponent;
+  const PendingComponent = route.pendingComponent;
+
+  // Wrap the subtree in a Suspense boundary with the route's pending component
+  const content = PendingComponent ? (
+    <RouteSuspense
+      fallback={<PendingComponent params={params} />}
+      pendingMs={route.pendingMs ?? 0}
+      pendingMinMs={route.pendingMinMs ?? 0}
+    >
+      {renderComponent()}
+    </RouteSuspense>
+  ) : (
+    renderComponent()
+  );
+
   return (
     <RouteContext.Provider value={routeContextValue}>
-      {renderComponent()}
+      {ErrorComponent ? (
+        <RouteErrorBoundary
+          // Reset on navigation and whenever loaders are revalidated
+          resetKey={`${locationEntry.key}:${loaderRevision}`}
+          fallback={(error) => {
+            const retry = () => {
+              // Re-run loaders of this route and its children
+              void revalidateLoaders((_, i) => i >= index);
+            };
+            return (
+              <ErrorComponent error={error} params={params} retry={retry} />
+            );
+          }}
+        >
+          {content}
+        </RouteErrorBoundary>
+      ) : (
+        content
+      )}
     </RouteContext.Provider>
   );
 }
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  render,
+  screen,
+  act,
+  fireEvent,
+  waitFor,
+} from "@testing-library/react";
+import { Router } from "../Router.js";
+import { Link } from "../Link.js";
+import { useNavigate } from "../hooks/useNavigate.js";
+import { useBlocker } from "../hooks/useBlocker.js";
+import {
+  route,
+  routeState,
+  type LoaderArgs,
+  type RouteComponentProps,
+} from "../route.js";
+
+describe("History fallback", () => {
+  beforeEach(() => {
+    // Browsers without the Navigation API
+    delete (globalThis as Record<string, unknown>).navigation;
+    history.replaceState(null, "", "/");
+    vi.spyOn(window, "scrollTo").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  let navigateFn: ReturnType<typeof useNavigate> = () => {};
+
+  function Nav() {
+    navigateFn = useNavigate();
+    return null;
+  }
+
+  function Page({ params, info }: RouteComponentProps<{ page: string }>) {
+    const source = (info as { source?: string } | undefined)?.source;
+    return (
+      <div>
+        <Nav />
+        <span>Page: {params.page}</span>
+        {source && <span>Source: {source}</span>}
+        <Link href="/page2">To page2</Link>
+      </div>
+    );
+  }
+
+  async function goBack() {
+    await act(async () => {
+      history.back();
+    });
+    // popstate is dispatched asynchronously
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+  }
+
+  it("navigates by intercepting link clicks", async () => {
+    history.replaceState(null, "", "/page1");
+    const routes = [route({ path: "/:page", component: Page })];
+
+    render(<Router routes={routes} fallback="history" />);
+    expect(screen.getByText("Page: page1")).toBeInTheDocument();
+    const firstKey = (history.state as { key: string }).key;
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("To page2"));
+    });
+
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    expect(location.pathname).toBe("/page2");
+    expect(history.state).toMatchObject({ index: 1 });
+    expect((history.state as { key: string }).key).not.toBe(firstKey);
+  });
+
+  it("handles back navigation with cached loader results", async () => {
+    history.replaceState(null, "", "/page1");
+    const loader = vi.fn(({ params }: LoaderArgs) => params.page);
+    const routes = [
+      route({
+        path: "/:page",
+        loader,
+        component: ({ data }: { data: string }) => (
+          <div>
+            <Nav />
+            Loaded: {data}
+          </div>
+        ),
+      }),
+    ];
+
+    render(<Router routes={routes} fallback="history" />);
+    await act(async () => {
+      navigateFn("/page2");
+    });
+    expect(screen.getByText("Loaded: page2")).toBeInTheDocument();
+
+    await goBack();
+    await waitFor(() => {
+      expect(screen.getByText("Loaded: page1")).toBeInTheDocument();
+    });
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes info of the navigation and resets it on traversal", async () => {
+    history.replaceState(null, "", "/page1");
+    const routes = [route({ path: "/:page", component: Page })];
+
+    render(<Router routes={routes} fallback="history" />);
+    await act(async () => {
+      navigateFn("/page2", { info: { source: "button" } });
+    });
+    expect(screen.getByText("Source: button")).toBeInTheDocument();
+
+    await act(async () => {
+      navigateFn("/page3");
+    });
+    await goBack();
+    await waitFor(() => {
+      expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    });
+    expect(screen.queryByText("Source: button")).not.toBeInTheDocument();
+  });
+
+  it("keeps navigation state per entry", async () => {
+    history.replaceState(null, "", "/page1");
+    type PageState = { count: number };
+    const routes = [
+      routeState<PageState>()({
+        path: "/:page",
+        component: ({
+          state,
+          setStateSync,
+        }: RouteComponentProps<{ page: string }, PageState>) => (
+          <div>
+            <Nav />
+            <button
+              onClick={() => setStateSync({ count: (state?.count ?? 0) + 1 })}
+            >
+              Count: {state?.count ?? 0}
+            </button>
+          </div>
+        ),
+      }),
+    ];
+
+    render(<Router routes={routes} fallback="history" />);
+    act(() => {
+      fireEvent.click(screen.getByRole("button"));
+    });
+    expect(screen.getByText("Count: 1")).toBeInTheDocument();
+
+    await act(async () => {
+      navigateFn("/page2");
+    });
+    expect(screen.getByText("Count: 0")).toBeInTheDocument();
+
+    await goBack();
+    await waitFor(() => {
+      expect(screen.getByText("Count: 1")).toBeInTheDocument();
+    });
+  });
+
+  it("blocks navigations and undoes blocked back navigations", async () => {
+    history.replaceState(null, "", "/page1");
+    let blocking = false;
+    function BlockingPage(props: RouteComponentProps<{ page: string }>) {
+      useBlocker({ shouldBlock: () => blocking });
+      return <Page {...props} />;
+    }
+    const routes = [route({ path: "/:page", component: BlockingPage })];
+
+    render(<Router routes={routes} fallback="history" />);
+    await act(async () => {
+      navigateFn("/page2");
+    });
+
+    blocking = true;
+    await act(async () => {
+      navigateFn("/page3");
+    });
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    expect(location.pathname).toBe("/page2");
+
+    await goBack();
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+    expect(location.pathname).toBe("/page2");
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+  });
+
+  it("aborts the loaders of a navigation superseded by another", async () => {
+    history.replaceState(null, "", "/page1");
+    const signals: Record<string, AbortSignal> = {};
+    const routes = [
+      route({
+        path: "/:page",
+        loader: ({ params, signal }: LoaderArgs) => {
+          signals[params.page!] = signal;
+          return params.page === "slow"
+            ? new Promise<string>(() => {})
+            : params.page!;
+        },
+        component: () => <Nav />,
+      }),
+    ];
+
+    render(<Router routes={routes} fallback="history" />);
+    const initialSignal = signals.page1!;
+
+    await act(async () => {
+      navigateFn("/slow");
+    });
+    expect(initialSignal.aborted).toBe(true);
+
+    const slowSignal = signals.slow!;
+    expect(slowSignal.aborted).toBe(false);
+    await act(async () => {
+      navigateFn("/page2");
+    });
+    expect(slowSignal.aborted).toBe(true);
+  });
+
+  it("clears cached loader results of entries disposed by a new navigation", async () => {
+    history.replaceState(null, "", "/page1");
+    const loaderCache = new Map<string, unknown>();
+    const routes = [
+      route({
+        path: "/:page",
+        loader: ({ params }: LoaderArgs) => params.page,
+        component: () => <Nav />,
+      }),
+    ];
+
+    render(
+      <Router routes={routes} fallback="history" loaderCache={loaderCache} />,
+    );
+    await act(async () => {
+      navigateFn("/page2");
+    });
+    expect([...loaderCache.values()]).toEqual(["page1", "page2"]);
+
+    await goBack();
+    await act(async () => {
+      navigateFn("/page3");
+    });
+    expect([...loaderCache.values()]).toEqual(["page1", "page3"]);
+  });
+});
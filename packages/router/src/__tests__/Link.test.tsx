@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { Outlet } from "../Outlet.js";
+import { Link, type LinkStatus } from "../Link.js";
+import { route } from "../route.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+import type { RouteDefinition } from "../route.js";
+
+describe("Link", () => {
+  let mockNavigation: ReturnType<typeof setupNavigationMock>;
+
+  beforeEach(() => {
+    mockNavigation = setupNavigationMock("http://localhost/users/1");
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    vi.restoreAllMocks();
+  });
+
+  function statusText({ isActive, isPending }: LinkStatus) {
+    return [isActive && "active", isPending && "pending"]
+      .filter(Boolean)
+      .join(" ");
+  }
+
+  function renderWithLinks(links: React.ReactNode) {
+    function Layout() {
+      return (
+        <div>
+          <nav>{links}</nav>
+          <Outlet />
+        </div>
+      );
+    }
+    const routes: RouteDefinition[] = [
+      {
+        path: "/",
+        component: Layout,
+        children: [
+          {
+            path: "users",
+            component: Outlet,
+            children: [{ path: ":id", component: () => <p>User</p> }],
+          },
+          { path: "usersettings", component: () => <p>Settings</p> },
+          { path: "about", component: () => <p>About</p> },
+        ],
+      },
+    ];
+    return render(<Router routes={routes} />);
+  }
+
+  it("throws when used outside Router", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => render(<Link href="/">Home</Link>)).toThrow(
+      "Link must be used within a Router",
+    );
+  });
+
+  it("renders an anchor with the resolved href", () => {
+    renderWithLinks(<Link href="/users/2?tab=posts#top">User 2</Link>);
+    expect(screen.getByText("User 2")).toHaveAttribute(
+      "href",
+      "/users/2?tab=posts#top",
+    );
+  });
+
+  it("resolves relative hrefs against the enclosing route or the leaf", () => {
+    renderWithLinks(
+      <>
+        <Link href="about">About</Link>
+        <Link href="../2" relative="leaf">
+          User 2
+        </Link>
+      </>,
+    );
+    expect(screen.getByText("About")).toHaveAttribute("href", "/about");
+    expect(screen.getByText("User 2")).toHaveAttribute("href", "/users/2");
+  });
+
+  it("is active on its path and below it on a segment boundary", () => {
+    renderWithLinks(
+      <>
+        <Link href="/users" className={statusText}>
+          Users
+        </Link>
+        <Link href="/users/1" className={statusText}>
+          User 1
+        </Link>
+        <Link href="/about" className={statusText}>
+          About
+        </Link>
+      </>,
+    );
+
+    expect(screen.getByText("Users")).toHaveClass("active");
+    expect(screen.getByText("Users")).toHaveAttribute("aria-current", "page");
+    expect(screen.getByText("User 1")).toHaveClass("active");
+    expect(screen.getByText("About")).not.toHaveClass("active");
+    expect(screen.getByText("About")).not.toHaveAttribute("aria-current");
+  });
+
+  it("is not active on paths that merely share a prefix", () => {
+    mockNavigation = setupNavigationMock("http://localhost/usersettings");
+    renderWithLinks(
+      <Link href="/users" className={statusText}>
+        Users
+      </Link>,
+    );
+    expect(screen.getByText("Users")).not.toHaveClass("active");
+  });
+
+  it("is active only on its exact path with end, and for the root link", () => {
+    renderWithLinks(
+      <>
+        <Link href="/users" end className={statusText}>
+          Users
+        </Link>
+        <Link href="/" className={statusText}>
+          Home
+        </Link>
+      </>,
+    );
+    expect(screen.getByText("Users")).not.toHaveClass("active");
+    expect(screen.getByText("Home")).not.toHaveClass("active");
+  });
+
+  it("follows the route tree rather than path segments", () => {
+    mockNavigation = setupNavigationMock("http://localhost/posts/1");
+    render(
+      <Router
+        routes={[
+          {
+            path: "/",
+            component: () => (
+              <nav>
+                <Link href="/posts" className={statusText}>
+                  Posts
+                </Link>
+                <Link href="/posts/1" className={statusText}>
+                  Post 1
+                </Link>
+                <Outlet />
+              </nav>
+            ),
+            children: [
+              { path: "posts", component: () => <p>All posts</p> },
+              { path: "posts/:id", component: () => <p>Post</p> },
+            ],
+          },
+        ]}
+      />,
+    );
+
+    // "/posts/1" is not rendered inside the "posts" route
+    expect(screen.getByText("Posts")).not.toHaveClass("active");
+    expect(screen.getByText("Post 1")).toHaveClass("active");
+  });
+
+  it("passes the status to style and children functions", () => {
+    renderWithLinks(
+      <Link
+        href="/users"
+        style={({ isActive }) => ({ fontWeight: isActive ? "bold" : "normal" })}
+      >
+        {({ isActive }) => (isActive ? "Users (current)" : "Users")}
+      </Link>,
+    );
+    const link = screen.getByText("Users (current)");
+    expect(link).toHaveStyle({ fontWeight: "bold" });
+  });
+
+  it("is pending while a navigation to its path is loading", () => {
+    renderWithLinks(
+      <Link href="/about" className={statusText}>
+        About
+      </Link>,
+    );
+    expect(screen.getByText("About")).not.toHaveClass("pending");
+
+    act(() => {
+      mockNavigation.__simulateNavigationWithEvent("/about");
+    });
+    expect(screen.getByText("About")).toHaveClass("pending");
+
+    act(() => {
+      mockNavigation.__dispatchEvent("navigatesuccess");
+    });
+    expect(screen.getByText("About")).not.toHaveClass("pending");
+  });
+
+  it("leaves plain clicks to the Navigation API", () => {
+    renderWithLinks(<Link href="/about">About</Link>);
+
+    const notPrevented = fireEvent.click(screen.getByText("About"));
+    expect(notPrevented).toBe(true);
+    expect(mockNavigation.navigate).not.toHaveBeenCalled();
+  });
+
+  it("navigates with replace, state and info", () => {
+    renderWithLinks(
+      <Link href="/about" replace state={{ from: "nav" }} info="link">
+        About
+      </Link>,
+    );
+
+    const notPrevented = fireEvent.click(screen.getByText("About"));
+    expect(notPrevented).toBe(false);
+    expect(mockNavigation.navigate).toHaveBeenCalledWith(
+      "http://localhost/about",
+      { history: "replace", state: { from: "nav" }, info: "link" },
+    );
+    expect(screen.getByText("About", { selector: "p" })).toBeInTheDocument();
+  });
+
+  it("does not handle modified clicks", () => {
+    renderWithLinks(
+      <Link href="/about" state={{ from: "nav" }}>
+        About
+      </Link>,
+    );
+
+    fireEvent.click(screen.getByText("About"), { metaKey: true });
+    expect(mockNavigation.navigate).not.toHaveBeenCalled();
+  });
+
+  it("prefetches loaders on hover when prefetch is set", () => {
+    const loader = vi.fn(() => "About data");
+    const routes = [
+      route({
+        path: "/users/:id",
+        component: () => (
+          <Link href="/about" prefetch>
+            About
+          </Link>
+        ),
+      }),
+      route({
+        path: "/about",
+        loader,
+        component: ({ data }) => <p>{data}</p>,
+      }),
+    ];
+    render(<Router routes={routes} />);
+
+    fireEvent.mouseEnter(screen.getByText("About"));
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { useNavigate } from "../hooks/useNavigate.js";
+import { useBlocker } from "../hooks/useBlocker.js";
+import { Link } from "../Link.js";
+import {
+  route,
+  routeState,
+  type LoaderArgs,
+  type RouteComponentProps,
+} from "../route.js";
+import { MemoryAdapter } from "../core/MemoryAdapter.js";
+
+describe("MemoryAdapter", () => {
+  beforeEach(() => {
+    // The adapter works without any browser navigation API
+    delete (globalThis as Record<string, unknown>).navigation;
+  });
+
+  let navigateFn: ReturnType<typeof useNavigate> = () => {};
+
+  function Nav() {
+    navigateFn = useNavigate();
+    return null;
+  }
+
+  function Page({ params, info }: RouteComponentProps<{ page: string }>) {
+    const source = (info as { source?: string } | undefined)?.source;
+    return (
+      <div>
+        <Nav />
+        <span>Page: {params.page}</span>
+        {source && <span>Source: {source}</span>}
+      </div>
+    );
+  }
+
+  const routes = [route({ path: "/:page", component: Page })];
+
+  it("renders the entry at initialIndex", () => {
+    const adapter = new MemoryAdapter({
+      initialEntries: ["/page1", "/page2", "/page3"],
+      initialIndex: 1,
+    });
+
+    render(<Router routes={routes} adapter={adapter} />);
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    expect(adapter.canGoBack).toBe(true);
+    expect(adapter.canGoForward).toBe(true);
+  });
+
+  it("rejects an initialIndex out of range", () => {
+    expect(
+      () => new MemoryAdapter({ initialEntries: ["/"], initialIndex: 1 }),
+    ).toThrow(RangeError);
+  });
+
+  it("navigates and traverses its entries", async () => {
+    const adapter = new MemoryAdapter({ initialEntries: ["/page1"] });
+
+    render(<Router routes={routes} adapter={adapter} />);
+    const firstKey = adapter.getSnapshot().key;
+    await act(async () => {
+      navigateFn("/page2", { info: { source: "button" } });
+    });
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    expect(screen.getByText("Source: button")).toBeInTheDocument();
+
+    await act(() => adapter.back());
+    expect(screen.getByText("Page: page1")).toBeInTheDocument();
+    expect(adapter.canGoBack).toBe(false);
+
+    await act(() => adapter.forward());
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    // Info only belongs to the navigation that passed it
+    expect(screen.queryByText("Source: button")).not.toBeInTheDocument();
+
+    await act(() => adapter.traverseTo(firstKey));
+    expect(screen.getByText("Page: page1")).toBeInTheDocument();
+    await expect(adapter.back()).rejects.toThrow("No entry to traverse to");
+  });
+
+  it("navigates on link clicks", async () => {
+    const adapter = new MemoryAdapter({ initialEntries: ["/page1"] });
+    function LinkPage({ params }: RouteComponentProps<{ page: string }>) {
+      return (
+        <div>
+          <span>Page: {params.page}</span>
+          <Link href="/page2">To page 2</Link>
+        </div>
+      );
+    }
+
+    render(
+      <Router
+        routes={[route({ path: "/:page", component: LinkPage })]}
+        adapter={adapter}
+      />,
+    );
+    const click = new MouseEvent("click", { bubbles: true, cancelable: true });
+    await act(async () => {
+      fireEvent(screen.getByText("To page 2"), click);
+    });
+
+    expect(click.defaultPrevented).toBe(true);
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    expect(adapter.canGoBack).toBe(true);
+  });
+
+  it("keeps navigation state per entry", async () => {
+    type PageState = { count: number };
+    const stateRoutes = [
+      routeState<PageState>()({
+        path: "/:page",
+        component: ({
+          state,
+          setStateSync,
+        }: RouteComponentProps<{ page: string }, PageState>) => (
+          <div>
+            <Nav />
+            <button
+              onClick={() => setStateSync({ count: (state?.count ?? 0) + 1 })}
+            >
+              Count: {state?.count ?? 0}
+            </button>
+          </div>
+        ),
+      }),
+    ];
+    const adapter = new MemoryAdapter({ initialEntries: ["/page1"] });
+
+    render(<Router routes={stateRoutes} adapter={adapter} />);
+    act(() => {
+      fireEvent.click(screen.getByRole("button"));
+    });
+    expect(screen.getByText("Count: 1")).toBeInTheDocument();
+
+    await act(async () => {
+      navigateFn("/page2");
+    });
+    expect(screen.getByText("Count: 0")).toBeInTheDocument();
+
+    await act(() => adapter.back());
+    expect(screen.getByText("Count: 1")).toBeInTheDocument();
+  });
+
+  it("cancels navigations and traversals that blockers or onNavigate prevent", async () => {
+    let blocking = false;
+    function BlockingPage(props: RouteComponentProps<{ page: string }>) {
+      useBlocker({ shouldBlock: () => blocking });
+      return <Page {...props} />;
+    }
+    const onNavigate = vi.fn((event: NavigateEvent) => {
+      if (new URL(event.destination.url).pathname === "/private") {
+        event.preventDefault();
+      }
+    });
+    const adapter = new MemoryAdapter({ initialEntries: ["/page1", "/page2"] });
+
+    render(
+      <Router
+        routes={[route({ path: "/:page", component: BlockingPage })]}
+        adapter={adapter}
+        onNavigate={onNavigate}
+      />,
+    );
+    await expect(adapter.navigateAsync("/private")).rejects.toThrow(
+      "Navigation was aborted",
+    );
+
+    blocking = true;
+    await expect(adapter.back()).rejects.toThrow("Navigation was aborted");
+    expect(screen.getByText("Page: page2")).toBeInTheDocument();
+    expect(onNavigate).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears cached loader results of entries disposed by a new navigation", async () => {
+    const loaderCache = new Map<string, unknown>();
+    const adapter = new MemoryAdapter({
+      initialEntries: ["/page1"],
+      loaderCache,
+    });
+    const loaderRoutes = [
+      route({
+        path: "/:page",
+        loader: ({ params }: LoaderArgs) => params.page,
+        component: () => <Nav />,
+      }),
+    ];
+
+    render(<Router routes={loaderRoutes} adapter={adapter} />);
+    await act(async () => {
+      navigateFn("/page2");
+    });
+    expect([...loaderCache.values()]).toEqual(["page1", "page2"]);
+
+    await act(() => adapter.back());
+    await act(async () => {
+      navigateFn("/page3");
+    });
+    expect([...loaderCache.values()]).toEqual(["page1", "page3"]);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { NavigationAPIAdapter } from "../core/NavigationAPIAdapter.js";
 import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
 import { internalRoutes } from "../types.js";
+import { route } from "../route.js";
 
 let mockNav: ReturnType<typeof setupNavigationMock>;
 let adapter: NavigationAPIAdapter;
@@ -170,6 +171,133 @@ describe("setupInterception", () => {
   });
 });
 
+describe("scroll handling", () => {
+  const routes = internalRoutes([
+    { path: "/", component: () => null },
+    { path: "/about", component: () => null },
+    {
+      path: "/settings",
+      component: () => null,
+      scroll: false,
+      children: [
+        { path: "profile", component: () => null },
+        { path: "security", component: () => null },
+      ],
+    },
+  ]);
+
+  function getInterceptOptions(event: NavigateEvent) {
+    const [options] = vi.mocked(event.intercept).mock.calls[0]!;
+    return options!;
+  }
+
+  it("intercepts with manual scrolling and scrolls after the handler's loaders", async () => {
+    let resolveLoader: () => void = () => {};
+    const loaderRoutes = internalRoutes([
+      route({
+        path: "/about",
+        loader: () =>
+          new Promise<void>((resolve) => {
+            resolveLoader = resolve;
+          }),
+        component: () => null,
+      }),
+    ]);
+    adapter.setupInterception(loaderRoutes);
+
+    const event = createNavigateEvent("http://localhost/about");
+    dispatchNavigateEvent(mockNav, event);
+
+    const options = getInterceptOptions(event);
+    expect(options.scroll).toBe("manual");
+
+    const handlerPromise = options.handler!();
+    await Promise.resolve();
+    expect(event.scroll).not.toHaveBeenCalled();
+
+    resolveLoader();
+    await handlerPromise;
+    expect(event.scroll).toHaveBeenCalledTimes(1);
+  });
+
+  it("scrolls when entering a route that opted out of scrolling", async () => {
+    adapter.setupInterception(routes);
+
+    const event = createNavigateEvent("http://localhost/settings/profile");
+    dispatchNavigateEvent(mockNav, event);
+    await getInterceptOptions(event).handler!();
+
+    expect(event.scroll).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the scroll position when navigating within a route with scroll: false", async () => {
+    mockNav = setupNavigationMock("http://localhost/settings/profile");
+    adapter.setupInterception(routes);
+
+    const event = createNavigateEvent("http://localhost/settings/security");
+    dispatchNavigateEvent(mockNav, event);
+    await getInterceptOptions(event).handler!();
+
+    expect(event.scroll).not.toHaveBeenCalled();
+  });
+
+  it("respects the scroll navigate option", async () => {
+    adapter.setupInterception(routes);
+
+    const event = createNavigateEvent("http://localhost/about");
+    mockNav.navigate.mockImplementationOnce(() => {
+      dispatchNavigateEvent(mockNav, event);
+      const entry = mockNav.currentEntry;
+      return {
+        committed: Promise.resolve(entry),
+        finished: Promise.resolve(entry),
+      };
+    });
+    adapter.navigate("/about", { scroll: false });
+    await getInterceptOptions(event).handler!();
+
+    expect(event.scroll).not.toHaveBeenCalled();
+  });
+
+  it("does not scroll when the navigation was aborted", async () => {
+    adapter.setupInterception(routes);
+
+    const controller = new AbortController();
+    const event = createNavigateEvent("http://localhost/about", {
+      signal: controller.signal,
+    });
+    dispatchNavigateEvent(mockNav, event);
+    const handlerPromise = getInterceptOptions(event).handler!();
+    controller.abort();
+    await handlerPromise;
+
+    expect(event.scroll).not.toHaveBeenCalled();
+  });
+});
+
+describe("idle abort signal", () => {
+  const routes = internalRoutes([
+    { path: "/", component: () => null },
+    { path: "/about", component: () => null },
+  ]);
+
+  it("is aborted by the next navigation intercepted by the same adapter", () => {
+    const otherAdapter = new NavigationAPIAdapter();
+    const signal = adapter.getIdleAbortSignal();
+    const otherSignal = otherAdapter.getIdleAbortSignal();
+    adapter.setupInterception(routes);
+
+    dispatchNavigateEvent(
+      mockNav,
+      createNavigateEvent("http://localhost/about"),
+    );
+
+    expect(signal.aborted).toBe(true);
+    expect(otherSignal.aborted).toBe(false);
+    expect(adapter.getIdleAbortSignal()).not.toBe(signal);
+  });
+});
+
 // Helper to create a mock NavigateEvent with customizable properties
 function createNavigateEvent(
   destinationUrl: string,
@@ -177,12 +305,14 @@ function createNavigateEvent(
     canIntercept?: boolean;
     hashChange?: boolean;
     downloadRequest?: string | null;
+    signal?: AbortSignal;
   } = {},
 ): NavigateEvent {
   const {
     canIntercept = true,
     hashChange = false,
     downloadRequest = null,
+    signal = new AbortController().signal,
   } = options;
 
   let defaultPrevented = false;
@@ -201,7 +331,7 @@ function createNavigateEvent(
     },
     navigationType: "push",
     userInitiated: false,
-    signal: new AbortController().signal,
+    signal,
     formData: null,
     downloadRequest,
     info: undefined,
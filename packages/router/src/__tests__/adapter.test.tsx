@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { render, screen, act } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { useNavigate } from "../hooks/useNavigate.js";
+import { useBlocker } from "../hooks/useBlocker.js";
+import { route, type LoaderArgs } from "../route.js";
+import { MemoryAdapter } from "../core/MemoryAdapter.js";
+import {
+  matchRoutes,
+  type InternalRouteDefinition,
+  type LocationChange,
+  type LocationEntry,
+  type NavigateOptions,
+  type PendingNavigation,
+  type RouterAdapter,
+} from "../adapter/index.js";
+
+/**
+ * Minimal custom adapter keeping the route in the URL's fragment,
+ * like an app served from a file:// URL would.
+ */
+class HashAdapter implements RouterAdapter {
+  readonly loaderCache = new Map<string, unknown>();
+  #snapshot: LocationEntry | null = null;
+  #listeners = new Set<(change?: LocationChange) => void>();
+  #checkBlockers: (() => boolean) | undefined = undefined;
+  #routes: InternalRouteDefinition[] = [];
+  #idleController = new AbortController();
+
+  getSnapshot(): LocationEntry {
+    if (!this.#snapshot) {
+      const path = window.location.hash.slice(1) || "/";
+      this.#snapshot = {
+        url: new URL(path, "http://app.local/"),
+        key: path,
+        state: undefined,
+        info: undefined,
+      };
+    }
+    return this.#snapshot;
+  }
+
+  getServerSnapshot(): LocationEntry | null {
+    return null;
+  }
+
+  subscribe(callback: (change?: LocationChange) => void): () => void {
+    this.#listeners.add(callback);
+    return () => {
+      this.#listeners.delete(callback);
+    };
+  }
+
+  getPendingNavigation(): PendingNavigation | null {
+    return null;
+  }
+
+  subscribePendingNavigation(): () => void {
+    return () => {};
+  }
+
+  navigate(to: string, options?: NavigateOptions): void {
+    this.navigateAsync(to, options).catch(() => {});
+  }
+
+  async navigateAsync(to: string, _options?: NavigateOptions): Promise<void> {
+    if (this.#checkBlockers?.()) {
+      throw new DOMException("Navigation was aborted", "AbortError");
+    }
+    const { pathname } = new URL(to, this.getSnapshot().url);
+    history.pushState(null, "", `#${pathname}`);
+    this.#idleController.abort();
+    this.#idleController = new AbortController();
+    this.#snapshot = null;
+    for (const listener of this.#listeners) {
+      listener({ viewTransition: undefined, direction: "push" });
+    }
+  }
+
+  // Routes the Router renders for a pathname
+  match(pathname: string) {
+    return matchRoutes(this.#routes, pathname);
+  }
+
+  setupInterception(
+    routes: InternalRouteDefinition[],
+    _onNavigate: unknown,
+    checkBlockers?: () => boolean,
+  ): () => void {
+    this.#routes = routes;
+    this.#checkBlockers = checkBlockers;
+    return () => {
+      this.#checkBlockers = undefined;
+    };
+  }
+
+  getIdleAbortSignal(): AbortSignal {
+    return this.#idleController.signal;
+  }
+
+  updateCurrentEntryState(): void {}
+}
+
+describe("adapter prop", () => {
+  beforeEach(() => {
+    delete (globalThis as Record<string, unknown>).navigation;
+    history.replaceState(null, "", "/");
+  });
+
+  let navigateFn: ReturnType<typeof useNavigate> = () => {};
+
+  function Nav() {
+    navigateFn = useNavigate();
+    return null;
+  }
+
+  const routes = [
+    route({
+      path: "/:page",
+      loader: ({ params }: LoaderArgs) => params.page,
+      component: ({ data }: { data: string }) => (
+        <div>
+          <Nav />
+          Page: {data}
+        </div>
+      ),
+    }),
+  ];
+
+  it("renders and navigates with a custom adapter", async () => {
+    history.replaceState(null, "", "/#/home");
+    const adapter = new HashAdapter();
+
+    render(<Router routes={routes} adapter={adapter} />);
+    expect(screen.getByText("Page: home")).toBeInTheDocument();
+
+    await act(async () => {
+      navigateFn("/about");
+    });
+    expect(screen.getByText("Page: about")).toBeInTheDocument();
+    expect(window.location.hash).toBe("#/about");
+    expect([...adapter.loaderCache.values()]).toEqual(["home", "about"]);
+  });
+
+  it("passes blockers to a custom adapter", async () => {
+    history.replaceState(null, "", "/#/home");
+    const adapter = new HashAdapter();
+    function BlockingPage() {
+      useBlocker({ shouldBlock: () => true });
+      return <Nav />;
+    }
+
+    render(
+      <Router
+        routes={[route({ path: "/:page", component: BlockingPage })]}
+        adapter={adapter}
+      />,
+    );
+    await expect(adapter.navigateAsync("/about")).rejects.toThrow(
+      "Navigation was aborted",
+    );
+    expect(window.location.hash).toBe("#/home");
+  });
+
+  it("matches the Router's routes in a custom adapter", () => {
+    const adapter = new HashAdapter();
+    render(<Router routes={routes} adapter={adapter} />);
+
+    expect(adapter.match("/about")).toEqual([
+      expect.objectContaining({
+        params: { page: "about" },
+        pathname: "/about",
+      }),
+    ]);
+    expect(adapter.match("/a/b")).toBeNull();
+  });
+
+  it("switches to another adapter passed later", () => {
+    const { rerender } = render(
+      <Router
+        routes={routes}
+        adapter={new MemoryAdapter({ initialEntries: ["/first"] })}
+      />,
+    );
+    expect(screen.getByText("Page: first")).toBeInTheDocument();
+
+    const second = new MemoryAdapter({ initialEntries: ["/second"] });
+    rerender(<Router routes={routes} adapter={second} />);
+    expect(screen.getByText("Page: second")).toBeInTheDocument();
+    expect([...second.loaderCache.entries()].map(([, data]) => data)).toEqual([
+      "second",
+    ]);
+  });
+});
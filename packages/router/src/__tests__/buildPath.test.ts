@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { buildPath } from "../buildPath.js";
+import { route } from "../route.js";
+
+describe("buildPath", () => {
+  const post = route({ path: "posts/:postId", component: () => null });
+  const user = route({
+    path: ":userId",
+    component: () => null,
+    children: [post],
+  });
+  const users = route({
+    path: "/users",
+    component: () => null,
+    children: [user],
+  });
+  const about = route({ path: "/about", component: () => null });
+
+  it("builds a path without params", () => {
+    expect(buildPath(about)).toBe("/about");
+    expect(buildPath(about, {})).toBe("/about");
+  });
+
+  it("substitutes params of a single route", () => {
+    const standalone = route({
+      path: "/users/:userId/posts/:postId",
+      component: () => null,
+    });
+    expect(buildPath(standalone, { userId: "1", postId: "2" })).toBe(
+      "/users/1/posts/2",
+    );
+  });
+
+  it("combines the paths of nested routes", () => {
+    expect(buildPath([users, user], { userId: "1" })).toBe("/users/1");
+    expect(buildPath([users, user, post], { userId: "1", postId: "2" })).toBe(
+      "/users/1/posts/2",
+    );
+  });
+
+  it("combines nested paths under a root layout", () => {
+    const root = route({ path: "/", component: () => null, children: [users] });
+    expect(buildPath([root, users, user], { userId: "1" })).toBe("/users/1");
+    expect(buildPath(root)).toBe("/");
+  });
+
+  it("encodes params", () => {
+    expect(buildPath([users, user], { userId: "a/b c?" })).toBe(
+      "/users/a%2Fb%20c%3F",
+    );
+  });
+
+  it("appends search and hash", () => {
+    expect(
+      buildPath(
+        [users, user],
+        { userId: "1" },
+        { search: { tab: "posts", q: "a&b" }, hash: "top" },
+      ),
+    ).toBe("/users/1?tab=posts&q=a%26b#top");
+    expect(buildPath(about, {}, { search: "?page=2", hash: "#contact" })).toBe(
+      "/about?page=2#contact",
+    );
+    expect(buildPath(about, {}, { search: new URLSearchParams() })).toBe(
+      "/about",
+    );
+  });
+
+  it("throws when a route is not a child of the previous route", () => {
+    expect(() => buildPath([users, post], { postId: "2" })).toThrow(
+      'Route "posts/:postId" is not a child of route "/users"',
+    );
+  });
+
+  it("rejects missing and extra params at compile time", () => {
+    expect(() =>
+      // @ts-expect-error - missing params
+      buildPath([users, user]),
+    ).toThrow('Missing param "userId"');
+    expect(() =>
+      // @ts-expect-error - missing param postId
+      buildPath([users, user, post], { userId: "1" }),
+    ).toThrow('Missing param "postId"');
+    // @ts-expect-error - extra param
+    buildPath([users, user], { userId: "1", postId: "2" });
+    // @ts-expect-error - params on a route without params
+    buildPath(about, { id: "1" });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Suspense, use } from "react";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { Outlet } from "../Outlet.js";
+import { route, type RouteErrorProps } from "../route.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+
+describe("Route error components", () => {
+  let mockNavigation: ReturnType<typeof setupNavigationMock>;
+
+  beforeEach(() => {
+    mockNavigation = setupNavigationMock("http://localhost/users/1");
+    // React reports errors caught by error boundaries to console.error
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    vi.restoreAllMocks();
+  });
+
+  function Layout() {
+    return (
+      <div>
+        <h1>Layout</h1>
+        <Outlet />
+      </div>
+    );
+  }
+
+  function UserError({
+    error,
+    params,
+    retry,
+  }: RouteErrorProps<{ id: string }>) {
+    return (
+      <div>
+        <p>{`Error for user ${params.id}: ${(error as Error).message}`}</p>
+        <button onClick={retry}>Retry</button>
+      </div>
+    );
+  }
+
+  it("renders errorComponent when the route component throws", () => {
+    function UserPage(): never {
+      throw new Error("render failed");
+    }
+
+    const routes = [
+      route({
+        path: "/users",
+        component: Layout,
+        children: [
+          route({
+            path: ":id",
+            component: UserPage,
+            errorComponent: UserError,
+          }),
+        ],
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+    expect(screen.getByText("Layout")).toBeInTheDocument();
+    expect(
+      screen.getByText("Error for user 1: render failed"),
+    ).toBeInTheDocument();
+  });
+
+  it("renders errorComponent when an async loader rejects", async () => {
+    function UserPage({ data }: { data: Promise<string> }) {
+      return <p>{use(data)}</p>;
+    }
+
+    const routes = [
+      route({
+        path: "/users/:id",
+        loader: () => Promise.reject(new Error("load failed")),
+        component: UserPage,
+        errorComponent: UserError,
+      }),
+    ];
+
+    await act(async () => {
+      render(
+        <Suspense fallback={<p>Loading</p>}>
+          <Router routes={routes} />
+        </Suspense>,
+      );
+    });
+
+    expect(
+      screen.getByText("Error for user 1: load failed"),
+    ).toBeInTheDocument();
+  });
+
+  it("renders errorComponent when a loader throws synchronously", () => {
+    const routes = [
+      route({
+        path: "/users/:id",
+        loader: (): string => {
+          throw new Error("sync failure");
+        },
+        component: ({ data }) => <p>{data}</p>,
+        errorComponent: UserError,
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+    expect(
+      screen.getByText("Error for user 1: sync failure"),
+    ).toBeInTheDocument();
+  });
+
+  it("catches errors from child routes in the nearest parent errorComponent", () => {
+    function LayoutError({ error }: RouteErrorProps<Record<string, never>>) {
+      return <p>{`Layout error: ${(error as Error).message}`}</p>;
+    }
+
+    const routes = [
+      route({
+        path: "/users",
+        component: Layout,
+        errorComponent: LayoutError,
+        children: [
+          route({
+            path: ":id",
+            component: (): never => {
+              throw new Error("child failed");
+            },
+          }),
+        ],
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+    expect(screen.getByText("Layout error: child failed")).toBeInTheDocument();
+    expect(screen.queryByText("Layout")).not.toBeInTheDocument();
+  });
+
+  it("retry re-runs the route's loader and renders it again", () => {
+    let attempts = 0;
+    const loader = vi.fn((): string => {
+      attempts++;
+      if (attempts === 1) {
+        throw new Error("first attempt failed");
+      }
+      return "Loaded user";
+    });
+
+    const routes = [
+      route({
+        path: "/users/:id",
+        loader,
+        component: ({ data }) => <p>{data}</p>,
+        errorComponent: UserError,
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+    expect(
+      screen.getByText("Error for user 1: first attempt failed"),
+    ).toBeInTheDocument();
+
+    act(() => {
+      fireEvent.click(screen.getByText("Retry"));
+    });
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(screen.getByText("Loaded user")).toBeInTheDocument();
+  });
+
+  it("resets the error state when navigating to another entry", () => {
+    const routes = [
+      route({
+        path: "/users/:id",
+        component: ({ params }) => {
+          if (params.id === "1") {
+            throw new Error("bad user");
+          }
+          return <p>{`User ${params.id}`}</p>;
+        },
+        errorComponent: UserError,
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+    expect(screen.getByText("Error for user 1: bad user")).toBeInTheDocument();
+
+    act(() => {
+      mockNavigation.__simulateNavigation("http://localhost/users/2");
+    });
+
+    expect(screen.getByText("User 2")).toBeInTheDocument();
+  });
+
+  it("propagates errors past the Router when no errorComponent is defined", () => {
+    const routes = [
+      route({
+        path: "/users/:id",
+        component: (): never => {
+          throw new Error("unhandled");
+        },
+      }),
+    ];
+
+    expect(() => render(<Router routes={routes} />)).toThrow("unhandled");
+  });
+});
@@ -1,11 +1,17 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { render, screen } from "@testing-library/react";
+import { useState } from "react";
+import { render, screen, act, fireEvent } from "@testing-library/react";
 import { Router } from "../Router.js";
 import { Outlet } from "../Outlet.js";
 import { useLocation } from "../hooks/useLocation.js";
 import { useNavigate } from "../hooks/useNavigate.js";
-import { route, type RouteDefinition } from "../route.js";
-import { clearLoaderCache } from "../core/loaderCache.js";
+import { useBlocker } from "../hooks/useBlocker.js";
+import {
+  route,
+  routeState,
+  type RouteComponentProps,
+  type RouteDefinition,
+} from "../route.js";
 
 // Helper to set up a static window.location without Navigation API
 function setupStaticLocation(url: string) {
@@ -35,8 +41,6 @@ describe("Fallback Mode", () => {
   beforeEach(() => {
     // Ensure Navigation API is not available for fallback tests
     delete (globalThis as Record<string, unknown>).navigation;
-    // Clear loader cache to prevent cross-test interference
-    clearLoaderCache();
   });
 
   afterEach(() => {
@@ -202,6 +206,197 @@ describe("Fallback Mode", () => {
     });
   });
 
+  describe('fallback="static-reload"', () => {
+    let assign: ReturnType<typeof vi.fn>;
+    let replace: ReturnType<typeof vi.fn>;
+    let navigateFn: ReturnType<typeof useNavigate> = () => {};
+
+    function setupReloadLocation(url: string) {
+      setupStaticLocation(url);
+      assign = vi.fn();
+      replace = vi.fn();
+      Object.assign(window.location, { assign, replace });
+    }
+
+    function Nav() {
+      navigateFn = useNavigate();
+      return null;
+    }
+
+    beforeEach(() => {
+      sessionStorage.clear();
+    });
+
+    it("navigates with a full page load", () => {
+      setupReloadLocation("http://localhost/");
+      const routes: RouteDefinition[] = [{ path: "/", component: Nav }];
+
+      render(<Router routes={routes} fallback="static-reload" />);
+      navigateFn("/about");
+      expect(assign).toHaveBeenCalledWith("http://localhost/about");
+
+      navigateFn("/contact", { replace: true });
+      expect(replace).toHaveBeenCalledWith("http://localhost/contact");
+    });
+
+    it("stores navigation state for the page it loads", () => {
+      setupReloadLocation("http://localhost/");
+      const routes: RouteDefinition[] = [{ path: "/", component: Nav }];
+
+      render(<Router routes={routes} fallback="static-reload" />);
+      navigateFn("/page2#top", { state: { from: "home" } });
+
+      expect(assign).toHaveBeenCalledWith("http://localhost/page2#top");
+      expect(
+        JSON.parse(
+          sessionStorage.getItem(
+            "@funstack/router:entry-state:http://localhost/page2",
+          )!,
+        ),
+      ).toEqual({ from: "home" });
+    });
+
+    it("updates route state without reloading the page", () => {
+      setupReloadLocation("http://localhost/page1");
+      type PageState = { count: number };
+      const routes = [
+        routeState<PageState>()({
+          path: "/:page",
+          component: ({
+            state,
+            setStateSync,
+          }: RouteComponentProps<{ page: string }, PageState>) => (
+            <button
+              onClick={() => setStateSync({ count: (state?.count ?? 0) + 1 })}
+            >
+              Count: {state?.count ?? 0}
+            </button>
+          ),
+        }),
+      ];
+
+      const { unmount } = render(
+        <Router routes={routes} fallback="static-reload" />,
+      );
+      act(() => {
+        fireEvent.click(screen.getByRole("button"));
+      });
+      expect(screen.getByText("Count: 1")).toBeInTheDocument();
+      expect(assign).not.toHaveBeenCalled();
+      expect(replace).not.toHaveBeenCalled();
+      unmount();
+
+      // The state survives a reload
+      render(<Router routes={routes} fallback="static-reload" />);
+      expect(screen.getByText("Count: 1")).toBeInTheDocument();
+    });
+
+    it("checks blockers before navigating and on beforeunload", () => {
+      setupReloadLocation("http://localhost/");
+      let blocking = true;
+      function BlockingPage() {
+        useBlocker({ shouldBlock: () => blocking });
+        return <Nav />;
+      }
+      const routes: RouteDefinition[] = [
+        { path: "/", component: BlockingPage },
+      ];
+
+      render(<Router routes={routes} fallback="static-reload" />);
+      navigateFn("/about");
+      expect(assign).not.toHaveBeenCalled();
+
+      const blockedUnload = new Event("beforeunload", { cancelable: true });
+      window.dispatchEvent(blockedUnload);
+      expect(blockedUnload.defaultPrevented).toBe(true);
+
+      blocking = false;
+      navigateFn("/about");
+      expect(assign).toHaveBeenCalledWith("http://localhost/about");
+
+      const unload = new Event("beforeunload", { cancelable: true });
+      window.dispatchEvent(unload);
+      expect(unload.defaultPrevented).toBe(false);
+    });
+
+    it("checks blockers again when the page does not unload", () => {
+      setupReloadLocation("http://localhost/");
+      let blocking = false;
+      function BlockingPage() {
+        useBlocker({ shouldBlock: () => blocking });
+        return <Nav />;
+      }
+      const routes: RouteDefinition[] = [
+        { path: "/", component: BlockingPage },
+      ];
+
+      render(<Router routes={routes} fallback="static-reload" />);
+      // The mocked assign() stays on the page, like a 204 response does
+      navigateFn("/download");
+      expect(assign).toHaveBeenCalledWith("http://localhost/download");
+
+      blocking = true;
+      const unload = new Event("beforeunload", { cancelable: true });
+      window.dispatchEvent(unload);
+      expect(unload.defaultPrevented).toBe(true);
+    });
+
+    it("does not check blockers again on the beforeunload of its own navigation", () => {
+      setupReloadLocation("http://localhost/");
+      const shouldBlock = vi.fn(() => false);
+      function BlockingPage() {
+        useBlocker({ shouldBlock });
+        return <Nav />;
+      }
+      const routes: RouteDefinition[] = [
+        { path: "/", component: BlockingPage },
+      ];
+      const unload = new Event("beforeunload", { cancelable: true });
+      assign.mockImplementation(() => {
+        window.dispatchEvent(unload);
+      });
+
+      render(<Router routes={routes} fallback="static-reload" />);
+      navigateFn("/about");
+      expect(assign).toHaveBeenCalledWith("http://localhost/about");
+      expect(shouldBlock).toHaveBeenCalledTimes(1);
+      expect(unload.defaultPrevented).toBe(false);
+    });
+
+    it("listens for beforeunload only while a blocker is registered", () => {
+      setupReloadLocation("http://localhost/");
+      const addEventListener = vi.spyOn(window, "addEventListener");
+      const removeEventListener = vi.spyOn(window, "removeEventListener");
+      const beforeUnloadCalls = (spy: typeof addEventListener) =>
+        spy.mock.calls.filter(([type]) => type === "beforeunload").length;
+      let setBlocking: (blocking: boolean) => void = () => {};
+      function Blocker() {
+        useBlocker({ shouldBlock: () => true });
+        return null;
+      }
+      function Page() {
+        const [blocking, setState] = useState(false);
+        setBlocking = setState;
+        return blocking ? <Blocker /> : null;
+      }
+      const routes: RouteDefinition[] = [{ path: "/", component: Page }];
+
+      render(<Router routes={routes} fallback="static-reload" />);
+      expect(beforeUnloadCalls(addEventListener)).toBe(0);
+
+      act(() => setBlocking(true));
+      expect(beforeUnloadCalls(addEventListener)).toBe(1);
+      const unload = new Event("beforeunload", { cancelable: true });
+      window.dispatchEvent(unload);
+      expect(unload.defaultPrevented).toBe(true);
+
+      act(() => setBlocking(false));
+      expect(beforeUnloadCalls(removeEventListener)).toBe(1);
+      addEventListener.mockRestore();
+      removeEventListener.mockRestore();
+    });
+  });
+
   describe("data loaders in static mode", () => {
     it("executes sync loader and passes data to component", () => {
       setupStaticLocation("http://localhost/");
@@ -1,11 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { render, screen, act } from "@testing-library/react";
+import { useContext, type ReactNode } from "react";
 import { Router } from "../Router.js";
+import { Outlet } from "../Outlet.js";
 import { useNavigate } from "../hooks/useNavigate.js";
 import { useLocation } from "../hooks/useLocation.js";
 import { useSearchParams } from "../hooks/useSearchParams.js";
+import { RouteContext } from "../context/RouteContext.js";
 import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
 import type { RouteDefinition } from "../route.js";
+import type { NavigateOptions } from "../types.js";
 
 describe("hooks", () => {
   let mockNavigation: ReturnType<typeof setupNavigationMock>;
@@ -77,6 +81,106 @@ describe("hooks", () => {
       });
     });
 
+    describe("relative paths", () => {
+      function NavigateButton({
+        to,
+        options,
+      }: {
+        to: string;
+        options?: NavigateOptions;
+      }) {
+        const navigate = useNavigate();
+        return (
+          <button onClick={() => navigate(to, options)}>
+            {`${to} ${options?.relative ?? "route"}`}
+          </button>
+        );
+      }
+
+      function renderUsers(layoutButtons: ReactNode, userButtons: ReactNode) {
+        mockNavigation = setupNavigationMock("http://localhost/users/1");
+        const routes: RouteDefinition[] = [
+          {
+            path: "/users",
+            component: () => (
+              <div>
+                {layoutButtons}
+                <Outlet />
+              </div>
+            ),
+            children: [{ path: ":id", component: () => <>{userButtons}</> }],
+          },
+        ];
+        render(<Router routes={routes} />);
+      }
+
+      function navigatedTo() {
+        return mockNavigation.navigate.mock.lastCall?.[0];
+      }
+
+      it("resolves against the pathname matched by the calling route", () => {
+        renderUsers(
+          <NavigateButton to="new" />,
+          <>
+            <NavigateButton to="edit" />
+            <NavigateButton to="../2" />
+          </>,
+        );
+
+        screen.getByText("new route").click();
+        expect(navigatedTo()).toBe("/users/new");
+
+        screen.getByText("edit route").click();
+        expect(navigatedTo()).toBe("/users/1/edit");
+
+        screen.getByText("../2 route").click();
+        expect(navigatedTo()).toBe("/users/2");
+      });
+
+      it("resolves against the leaf route with relative: leaf", () => {
+        renderUsers(
+          <NavigateButton to="edit" options={{ relative: "leaf" }} />,
+          null,
+        );
+
+        screen.getByText("edit leaf").click();
+        expect(navigatedTo()).toBe("/users/1/edit");
+      });
+
+      it("passes absolute paths through unchanged", () => {
+        renderUsers(null, <NavigateButton to="/about" />);
+
+        screen.getByText("/about route").click();
+        expect(navigatedTo()).toBe("/about");
+      });
+
+      it("passes paths through unchanged outside a route", () => {
+        renderUsers(
+          null,
+          <RouteContext.Provider value={null}>
+            <NavigateButton to="edit" />
+          </RouteContext.Provider>,
+        );
+
+        screen.getByText("edit route").click();
+        expect(navigatedTo()).toBe("edit");
+      });
+
+      it("keeps the segment path in matchedPath", () => {
+        function Paths() {
+          const routeContext = useContext(RouteContext);
+          return (
+            <p>
+              {routeContext?.matchedPath} {routeContext?.absolutePath}
+            </p>
+          );
+        }
+        renderUsers(null, <Paths />);
+
+        expect(screen.getByText("/1 /users/1")).toBeInTheDocument();
+      });
+    });
+
     it("throws when used outside Router", () => {
       function TestComponent() {
         useNavigate();
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { use } from "react";
+import { act } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot, type Root } from "react-dom/client";
+import { Router } from "../Router.js";
+import { Outlet } from "../Outlet.js";
+import { route } from "../route.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+import type { HydrationData } from "../core/hydration.js";
+
+describe("Hydration", () => {
+  let container: HTMLElement;
+  let root: Root | null;
+
+  beforeEach(() => {
+    setupNavigationMock("http://localhost/users/42");
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    root = null;
+  });
+
+  afterEach(() => {
+    act(() => {
+      root?.unmount();
+    });
+    container.remove();
+    cleanupNavigationMock();
+  });
+
+  it("hydrates server-rendered markup without mismatches", () => {
+    const routes = [
+      route({
+        path: "/users/:id",
+        component: ({ params }) => <p>User {params.id}</p>,
+      }),
+    ];
+
+    container.innerHTML = renderToString(
+      <Router routes={routes} url="http://localhost/users/42" />,
+    );
+    expect(container.textContent).toBe("User 42");
+
+    const onRecoverableError = vi.fn();
+    act(() => {
+      root = hydrateRoot(
+        container,
+        <Router routes={routes} url="http://localhost/users/42" />,
+        { onRecoverableError },
+      );
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(container.textContent).toBe("User 42");
+  });
+
+  describe("hydrationData", () => {
+    const hydrationData: HydrationData = {
+      url: "http://localhost/users/42",
+      results: [
+        { type: "value", value: { title: "Users" } },
+        { type: "promise", value: { name: "Alice" } },
+      ],
+    };
+
+    function Layout({ data }: { data: { title: string } }) {
+      return <h1>{data.title}</h1>;
+    }
+
+    function UserPage({ data }: { data: Promise<{ name: string }> }) {
+      const user = use(data);
+      return <p>{user.name}</p>;
+    }
+
+    it("seeds loader results without running loaders again", () => {
+      const layoutLoader = vi.fn(() => ({ title: "Users" }));
+      const userLoader = vi.fn(async () => ({ name: "Alice" }));
+      const routes = [
+        route({
+          path: "/users",
+          loader: layoutLoader,
+          component: ({ data }) => (
+            <div>
+              <Layout data={data} />
+              <Outlet />
+            </div>
+          ),
+          children: [
+            route({ path: ":id", loader: userLoader, component: UserPage }),
+          ],
+        }),
+      ];
+
+      container.innerHTML = "<div><h1>Users</h1><p>Alice</p></div>";
+
+      const onRecoverableError = vi.fn();
+      act(() => {
+        root = hydrateRoot(
+          container,
+          <Router
+            routes={routes}
+            url="http://localhost/users/42"
+            hydrationData={hydrationData}
+          />,
+          { onRecoverableError },
+        );
+      });
+
+      expect(layoutLoader).not.toHaveBeenCalled();
+      expect(userLoader).not.toHaveBeenCalled();
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(container.textContent).toBe("UsersAlice");
+    });
+
+    it("runs loaders whose results were not serialized", () => {
+      const userLoader = vi.fn(() => ({ name: "Bob" }));
+      const routes = [
+        route({
+          path: "/users/:id",
+          loader: userLoader,
+          component: ({ data }) => <p>{data.name}</p>,
+        }),
+      ];
+
+      act(() => {
+        root = hydrateRoot(
+          container,
+          <Router
+            routes={routes}
+            url="http://localhost/users/42"
+            hydrationData={{
+              url: "http://localhost/users/42",
+              results: [null],
+            }}
+          />,
+          { onRecoverableError: () => {} },
+        );
+      });
+
+      expect(userLoader).toHaveBeenCalledTimes(1);
+      expect(container.textContent).toBe("Bob");
+    });
+
+    it("seeds loader results for a url with a hash or another origin", () => {
+      const userLoader = vi.fn(() => ({ name: "Bob" }));
+      const routes = [
+        route({
+          path: "/users/:id",
+          loader: userLoader,
+          component: ({ data }) => <p>{data.name}</p>,
+        }),
+      ];
+      container.innerHTML = "<p>Alice</p>";
+
+      const onRecoverableError = vi.fn();
+      act(() => {
+        root = hydrateRoot(
+          container,
+          <Router
+            routes={routes}
+            url="http://localhost/users/42#profile"
+            hydrationData={{
+              // Rendered behind a proxy, which sees another host
+              url: "http://internal:3000/users/42",
+              results: [{ type: "value", value: { name: "Alice" } }],
+            }}
+          />,
+          { onRecoverableError },
+        );
+      });
+
+      expect(userLoader).not.toHaveBeenCalled();
+      expect(onRecoverableError).not.toHaveBeenCalled();
+      expect(container.textContent).toBe("Alice");
+    });
+
+    it("ignores hydration data produced for a different url", () => {
+      const userLoader = vi.fn(() => ({ name: "Bob" }));
+      const routes = [
+        route({
+          path: "/users/:id",
+          loader: userLoader,
+          component: ({ data }) => <p>{data.name}</p>,
+        }),
+      ];
+
+      act(() => {
+        root = hydrateRoot(
+          container,
+          <Router
+            routes={routes}
+            url="http://localhost/users/42"
+            hydrationData={{
+              url: "http://localhost/users/1",
+              results: [{ type: "value", value: { name: "Alice" } }],
+            }}
+          />,
+          { onRecoverableError: () => {} },
+        );
+      });
+
+      expect(userLoader).toHaveBeenCalledTimes(1);
+      expect(container.textContent).toBe("Bob");
+    });
+  });
+});
@@ -3,12 +3,10 @@ import { render, screen, act } from "@testing-library/react";
 import { Router } from "../Router.js";
 import { route, type RouteComponentProps } from "../route.js";
 import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
-import { clearLoaderCache } from "../core/loaderCache.js";
 
 describe("Navigation Info", () => {
   beforeEach(() => {
     setupNavigationMock("http://localhost/");
-    clearLoaderCache();
   });
 
   afterEach(() => {
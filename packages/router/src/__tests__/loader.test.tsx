@@ -1,18 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Suspense, use, useState } from "react";
 import { render, screen, act } from "@testing-library/react";
 import { Router } from "../Router.js";
 import { Outlet } from "../Outlet.js";
 import { route, type LoaderArgs } from "../route.js";
 import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
 import { internalRoutes, type InternalRouteDefinition } from "../types.js";
-import { clearLoaderCache } from "../core/loaderCache.js";
+import type { LoaderCacheLimits } from "../core/loaderCache.js";
 
 describe("Data Loader", () => {
   let mockNavigation: ReturnType<typeof setupNavigationMock>;
 
   beforeEach(() => {
     mockNavigation = setupNavigationMock("http://localhost/");
-    clearLoaderCache();
   });
 
   afterEach(() => {
@@ -266,6 +266,164 @@ describe("Data Loader", () => {
       );
       expect(screen.getByText("Has signal: yes")).toBeInTheDocument();
     });
+
+    it("receives the parent route's loader result as parentData", () => {
+      mockNavigation = setupNavigationMock("http://localhost/orgs/acme/1");
+
+      function OrgLayout({ data }: { data: { org: string } }) {
+        return (
+          <div>
+            <h1>Org: {data.org}</h1>
+            <Outlet />
+          </div>
+        );
+      }
+
+      function ProjectPage({ data }: { data: string }) {
+        return <div>{data}</div>;
+      }
+
+      const routes = [
+        route({
+          path: "/orgs/:orgId",
+          component: OrgLayout,
+          loader: ({ params }) => ({ org: params.orgId }),
+          children: [
+            route({
+              path: ":projectId",
+              component: ProjectPage,
+              loader: ({ params, parentData }: LoaderArgs<{ org: string }>) =>
+                `Project ${params.projectId} of ${parentData.org}`,
+            }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Project 1 of acme")).toBeInTheDocument();
+    });
+
+    it("runs loaders in parallel and lets a child await its parent's data", async () => {
+      mockNavigation = setupNavigationMock("http://localhost/orgs/acme/1");
+
+      let resolveOrg: (org: { name: string }) => void = () => {};
+      const orgLoader = vi.fn(
+        () =>
+          new Promise<{ name: string }>((resolve) => {
+            resolveOrg = resolve;
+          }),
+      );
+      const projectLoader = vi.fn(
+        async ({ parentData }: LoaderArgs<Promise<{ name: string }>>) => {
+          const org = await parentData;
+          return `Project of ${org.name}`;
+        },
+      );
+
+      function Layout() {
+        return <Outlet />;
+      }
+
+      function ProjectPage({ data }: { data: Promise<string> }) {
+        return <div>{use(data)}</div>;
+      }
+
+      const routes = [
+        route({
+          path: "/orgs/:orgId",
+          component: Layout,
+          loader: orgLoader,
+          children: [
+            route({
+              path: ":projectId",
+              component: ProjectPage,
+              loader: projectLoader,
+            }),
+          ],
+        }),
+      ];
+
+      await act(async () => {
+        render(
+          <Suspense fallback={<div>Loading</div>}>
+            <Router routes={routes} />
+          </Suspense>,
+        );
+      });
+
+      // The child loader started without waiting for its parent
+      expect(orgLoader).toHaveBeenCalledTimes(1);
+      expect(projectLoader).toHaveBeenCalledTimes(1);
+      expect(screen.getByText("Loading")).toBeInTheDocument();
+
+      await act(async () => {
+        resolveOrg({ name: "Acme" });
+      });
+      expect(screen.getByText("Project of Acme")).toBeInTheDocument();
+    });
+
+    it("passes undefined parentData when the parent route has no loader", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+
+      const userLoader = vi.fn((args: LoaderArgs) => args.parentData);
+
+      const routes = [
+        route({
+          path: "/users",
+          component: () => <Outlet />,
+          children: [
+            route({
+              path: ":id",
+              component: () => <div>User</div>,
+              loader: userLoader,
+            }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(userLoader).toHaveBeenCalledWith(
+        expect.objectContaining({ parentData: undefined }),
+      );
+    });
+
+    it("passes the nearest ancestor's loader result through layouts without a loader", () => {
+      mockNavigation = setupNavigationMock(
+        "http://localhost/orgs/acme/projects/1",
+      );
+
+      function ProjectPage({ data }: { data: string }) {
+        return <div>{data}</div>;
+      }
+
+      const routes = [
+        route({
+          path: "/orgs/:orgId",
+          component: () => <Outlet />,
+          loader: ({ params }) => ({ org: params.orgId }),
+          children: [
+            route({
+              path: "projects",
+              component: () => <Outlet />,
+              children: [
+                route({
+                  path: ":projectId",
+                  component: ProjectPage,
+                  loader: ({
+                    params,
+                    parentData,
+                  }: LoaderArgs<{ org: string }>) =>
+                    `Project ${params.projectId} of ${parentData.org}`,
+                }),
+              ],
+            }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Project 1 of acme")).toBeInTheDocument();
+    });
   });
 
   describe("loader caching", () => {
@@ -411,6 +569,50 @@ describe("Data Loader", () => {
       expect(aboutRoute.path).toBe("/about");
       expect(aboutRoute.loader).toBeUndefined();
     });
+
+    it("checks that child loaders accept the parent's data", () => {
+      // @ts-expect-error the child expects { org: number } but gets { org: string }
+      const orgRoute = route({
+        path: "/orgs/:orgId",
+        loader: ({ params }) => ({ org: params.orgId }),
+        component: () => <Outlet />,
+        children: [
+          route({
+            path: ":projectId",
+            loader: ({ parentData }: LoaderArgs<{ org: number }>) =>
+              parentData.org,
+            component: () => <div>Project</div>,
+          }),
+        ],
+      });
+
+      expect(orgRoute.path).toBe("/orgs/:orgId");
+    });
+
+    it("checks child loaders against the nearest ancestor's data through layouts", () => {
+      // @ts-expect-error the child expects { org: number } but gets { org: string }
+      const orgRoute = route({
+        path: "/orgs/:orgId",
+        loader: ({ params }) => ({ org: params.orgId }),
+        component: () => <Outlet />,
+        children: [
+          route({
+            path: "projects",
+            component: () => <Outlet />,
+            children: [
+              route({
+                path: ":projectId",
+                loader: ({ parentData }: LoaderArgs<{ org: number }>) =>
+                  parentData.org,
+                component: () => <div>Project</div>,
+              }),
+            ],
+          }),
+        ],
+      });
+
+      expect(orgRoute.path).toBe("/orgs/:orgId");
+    });
   });
 
   describe("dispose event", () => {
@@ -521,4 +723,243 @@ describe("Data Loader", () => {
       expect(screen.getByText("Page: page1")).toBeInTheDocument();
     });
   });
+
+  describe("cache limits", () => {
+    function setup(loaderCacheLimits: LoaderCacheLimits) {
+      mockNavigation = setupNavigationMock("http://localhost/page1");
+      const loaderSpy = vi.fn(({ params }: LoaderArgs) => ({
+        page: params.page,
+      }));
+      function Page({ data }: { data: { page: string } }) {
+        return <div>Page: {data.page}</div>;
+      }
+      const routes = [
+        route({ path: "/:page", component: Page, loader: loaderSpy }),
+      ];
+      render(<Router routes={routes} loaderCacheLimits={loaderCacheLimits} />);
+      return loaderSpy;
+    }
+
+    it("evicts the least recently rendered entries beyond maxEntries", () => {
+      const loaderSpy = setup({ maxEntries: 2 });
+      act(() => {
+        mockNavigation.__simulateNavigation("http://localhost/page2");
+      });
+      act(() => {
+        mockNavigation.__simulateNavigation("http://localhost/page3");
+      });
+      expect(loaderSpy).toHaveBeenCalledTimes(3);
+
+      // page2 is still cached
+      act(() => {
+        mockNavigation.__simulateTraversal(1);
+      });
+      expect(loaderSpy).toHaveBeenCalledTimes(3);
+
+      // page1 was evicted when page3 rendered
+      act(() => {
+        mockNavigation.__simulateTraversal(0);
+      });
+      expect(loaderSpy).toHaveBeenCalledTimes(4);
+      expect(screen.getByText("Page: page1")).toBeInTheDocument();
+
+      // Revisiting page2 made it more recent than page3, which was evicted
+      act(() => {
+        mockNavigation.__simulateTraversal(1);
+      });
+      expect(loaderSpy).toHaveBeenCalledTimes(4);
+      act(() => {
+        mockNavigation.__simulateTraversal(2);
+      });
+      expect(loaderSpy).toHaveBeenCalledTimes(5);
+    });
+
+    it("evicts entries beyond maxBytes but keeps the current entry", () => {
+      // Each result serializes to {"page":"pageN"} (16 bytes)
+      const loaderSpy = setup({ maxBytes: 20 });
+      act(() => {
+        mockNavigation.__simulateNavigation("http://localhost/page2");
+      });
+      act(() => {
+        mockNavigation.__simulateTraversal(0);
+      });
+      expect(loaderSpy).toHaveBeenCalledTimes(3);
+      expect(screen.getByText("Page: page1")).toBeInTheDocument();
+    });
+
+    it("serializes each result once to estimate its size", () => {
+      mockNavigation = setupNavigationMock("http://localhost/page1");
+      const toJSON = vi.fn(() => "result");
+      function Page() {
+        return <div>Page</div>;
+      }
+      const routes = [
+        route({ path: "/:page", component: Page, loader: () => ({ toJSON }) }),
+      ];
+      render(<Router routes={routes} loaderCacheLimits={{ maxBytes: 1000 }} />);
+      act(() => {
+        mockNavigation.__simulateNavigation("http://localhost/page2");
+      });
+      act(() => {
+        mockNavigation.__simulateNavigation("http://localhost/page3");
+      });
+
+      // One serialization per result, not per result and eviction pass
+      expect(toJSON).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("per-Router cache", () => {
+    it("does not share loader results between Routers", () => {
+      function Page({ data }: { data: string }) {
+        return <div>{data}</div>;
+      }
+      const appRoutes = [
+        route({ path: "/", component: Page, loader: () => "App" }),
+      ];
+      const widgetRoutes = [
+        route({ path: "/", component: Page, loader: () => "Widget" }),
+      ];
+
+      render(
+        <>
+          <Router routes={appRoutes} />
+          <Router routes={widgetRoutes} />
+        </>,
+      );
+      expect(screen.getByText("App")).toBeInTheDocument();
+      expect(screen.getByText("Widget")).toBeInTheDocument();
+    });
+
+    it("stores loader results in an injected cache", () => {
+      const loaderCache = new Map<string, unknown>();
+      const routes = [
+        route({
+          path: "/",
+          component: ({ data }: { data: string }) => <div>{data}</div>,
+          loader: () => "Cached",
+        }),
+      ];
+
+      render(<Router routes={routes} loaderCache={loaderCache} />);
+      expect(screen.getByText("Cached")).toBeInTheDocument();
+      expect([...loaderCache.values()]).toEqual(["Cached"]);
+    });
+
+    it("reuses the cache when the first render suspends", async () => {
+      let resolveData: (data: string) => void = () => {};
+      const loaderSpy = vi.fn(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveData = resolve;
+          }),
+      );
+      function Page({ data }: { data: Promise<string> }) {
+        return <div>{use(data)}</div>;
+      }
+      const routes = [route({ path: "/", component: Page, loader: loaderSpy })];
+
+      await act(async () => {
+        render(
+          <Suspense fallback={<div>Loading</div>}>
+            <Router routes={routes} />
+          </Suspense>,
+        );
+      });
+      expect(screen.getByText("Loading")).toBeInTheDocument();
+
+      await act(async () => {
+        resolveData("Loaded");
+      });
+      expect(screen.getByText("Loaded")).toBeInTheDocument();
+      expect(loaderSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps the cache when the parent re-renders before the first commit", async () => {
+      let resolveData: (data: string) => void = () => {};
+      const loaderSpy = vi.fn(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveData = resolve;
+          }),
+      );
+      function Page({ data }: { data: Promise<string> }) {
+        return <div>{use(data)}</div>;
+      }
+      const routes = [route({ path: "/", component: Page, loader: loaderSpy })];
+      // Created outside the Suspense boundary, so it outlives the discarded renders
+      const loaderCache = new Map<string, unknown>();
+      let rerenderParent: () => void = () => {};
+      function App() {
+        const [count, setCount] = useState(0);
+        rerenderParent = () => setCount((c) => c + 1);
+        return (
+          <Suspense fallback={<div>Loading {count}</div>}>
+            <Router routes={routes} loaderCache={loaderCache} />
+          </Suspense>
+        );
+      }
+
+      await act(async () => {
+        render(<App />);
+      });
+      await act(async () => {
+        rerenderParent();
+      });
+      expect(screen.getByText("Loading 1")).toBeInTheDocument();
+
+      await act(async () => {
+        resolveData("Loaded");
+      });
+      expect(screen.getByText("Loaded")).toBeInTheDocument();
+      expect(loaderSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("switches to another loaderCache passed later", () => {
+      const loaderSpy = vi.fn(() => "Loaded");
+      const routes = [
+        route({
+          path: "/",
+          component: ({ data }: { data: string }) => <div>{data}</div>,
+          loader: loaderSpy,
+        }),
+      ];
+      const firstCache = new Map<string, unknown>();
+      const secondCache = new Map<string, unknown>();
+
+      const { rerender } = render(
+        <Router routes={routes} loaderCache={firstCache} />,
+      );
+      rerender(<Router routes={routes} loaderCache={secondCache} />);
+
+      expect(screen.getByText("Loaded")).toBeInTheDocument();
+      expect(loaderSpy).toHaveBeenCalledTimes(2);
+      expect(firstCache.size).toBe(1);
+      expect(secondCache.size).toBe(1);
+    });
+
+    it("does not share the cache between Routers with the same routes", async () => {
+      const loaderSpy = vi.fn(async () => "Loaded");
+      function Page({ data }: { data: Promise<string> }) {
+        return <div>{use(data)}</div>;
+      }
+      const routes = [route({ path: "/", component: Page, loader: loaderSpy })];
+      const firstCache = new Map<string, unknown>();
+      const secondCache = new Map<string, unknown>();
+
+      await act(async () => {
+        render(
+          <Suspense fallback={<div>Loading</div>}>
+            <Router routes={routes} loaderCache={firstCache} />
+            <Router routes={routes} loaderCache={secondCache} />
+          </Suspense>,
+        );
+      });
+
+      expect(screen.getAllByText("Loaded")).toHaveLength(2);
+      expect(loaderSpy).toHaveBeenCalledTimes(2);
+      expect(firstCache.size).toBe(1);
+      expect(secondCache.size).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { use } from "react";
+import { render, screen, act } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { Outlet } from "../Outlet.js";
+import { route, type RoutePendingProps } from "../route.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+
+describe("Route pending components", () => {
+  let resolveUser: (name: string) => void;
+  let userPromise: Promise<string>;
+
+  beforeEach(() => {
+    // Keep React's scheduler (setImmediate) running on real timers
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    setupNavigationMock("http://localhost/users/1");
+    userPromise = new Promise((resolve) => {
+      resolveUser = resolve;
+    });
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    vi.useRealTimers();
+  });
+
+  function Layout() {
+    return (
+      <div>
+        <h1>Layout</h1>
+        <Outlet />
+      </div>
+    );
+  }
+
+  function UserPage({ data }: { data: Promise<string> }) {
+    return <p>{use(data)}</p>;
+  }
+
+  function UserPending({ params }: RoutePendingProps<{ id: string }>) {
+    return <p>{`Loading user ${params.id}`}</p>;
+  }
+
+  function createRoutes(options: {
+    pendingMs?: number;
+    pendingMinMs?: number;
+  }) {
+    return [
+      route({
+        path: "/users",
+        component: Layout,
+        children: [
+          route({
+            path: ":id",
+            loader: () => userPromise,
+            component: UserPage,
+            pendingComponent: UserPending,
+            ...options,
+          }),
+        ],
+      }),
+    ];
+  }
+
+  it("shows pendingComponent while the route is suspended", async () => {
+    await act(async () => {
+      render(<Router routes={createRoutes({})} />);
+    });
+
+    expect(screen.getByText("Layout")).toBeInTheDocument();
+    expect(screen.getByText("Loading user 1")).toBeInTheDocument();
+
+    await act(async () => {
+      resolveUser("Alice");
+    });
+
+    expect(screen.getByText("Alice")).toBeInTheDocument();
+    expect(screen.queryByText("Loading user 1")).not.toBeInTheDocument();
+  });
+
+  it("delays showing pendingComponent by pendingMs", async () => {
+    await act(async () => {
+      render(<Router routes={createRoutes({ pendingMs: 200 })} />);
+    });
+
+    expect(screen.getByText("Layout")).toBeInTheDocument();
+    expect(screen.queryByText("Loading user 1")).not.toBeInTheDocument();
+
+    await act(async () => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(screen.getByText("Loading user 1")).toBeInTheDocument();
+
+    await act(async () => {
+      resolveUser("Alice");
+    });
+    expect(screen.getByText("Alice")).toBeInTheDocument();
+  });
+
+  it("never shows pendingComponent when loading finishes within pendingMs", async () => {
+    await act(async () => {
+      render(<Router routes={createRoutes({ pendingMs: 200 })} />);
+    });
+
+    await act(async () => {
+      vi.advanceTimersByTime(100);
+      resolveUser("Alice");
+    });
+
+    expect(screen.getByText("Alice")).toBeInTheDocument();
+
+    await act(async () => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(screen.queryByText("Loading user 1")).not.toBeInTheDocument();
+  });
+
+  it("keeps pendingComponent visible for at least pendingMinMs", async () => {
+    await act(async () => {
+      render(<Router routes={createRoutes({ pendingMinMs: 500 })} />);
+    });
+    expect(screen.getByText("Loading user 1")).toBeInTheDocument();
+
+    await act(async () => {
+      vi.advanceTimersByTime(100);
+      resolveUser("Alice");
+    });
+
+    // Data is ready, but the minimum display time has not passed yet
+    expect(screen.getByText("Loading user 1")).toBeInTheDocument();
+    expect(screen.queryByText("Alice")).not.toBeInTheDocument();
+
+    await act(async () => {
+      vi.advanceTimersByTime(400);
+    });
+
+    expect(screen.getByText("Alice")).toBeInTheDocument();
+    expect(screen.queryByText("Loading user 1")).not.toBeInTheDocument();
+  });
+
+  it("renders the component directly when it does not suspend", () => {
+    const routes = [
+      route({
+        path: "/users/:id",
+        loader: ({ params }) => `User ${params.id}`,
+        component: ({ data }) => <p>{data}</p>,
+        pendingComponent: UserPending,
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+    expect(screen.getByText("User 1")).toBeInTheDocument();
+    expect(screen.queryByText("Loading user 1")).not.toBeInTheDocument();
+  });
+});
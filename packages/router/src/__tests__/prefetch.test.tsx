@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { render, screen, act } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { route, type LoaderArgs } from "../route.js";
+import { usePrefetch } from "../hooks/usePrefetch.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+
+describe("usePrefetch", () => {
+  let mockNavigation: ReturnType<typeof setupNavigationMock>;
+  let prefetch: (to: string) => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    mockNavigation = setupNavigationMock("http://localhost/");
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function Home() {
+    prefetch = usePrefetch();
+    return <div>Home</div>;
+  }
+
+  function createRoutes() {
+    let count = 0;
+    const loader = vi.fn(
+      ({ params }: LoaderArgs) => `User ${params.id} (${++count})`,
+    );
+    const routes = [
+      route({ path: "/", component: Home }),
+      route({
+        path: "/users/:id",
+        loader,
+        component: ({ data }) => <div>{data}</div>,
+      }),
+    ];
+    return { routes, loader };
+  }
+
+  it("runs loaders for a URL before navigating to it", () => {
+    const { routes, loader } = createRoutes();
+    render(<Router routes={routes} />);
+
+    prefetch("/users/1");
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(loader).toHaveBeenCalledWith(
+      expect.objectContaining({ params: { id: "1" } }),
+    );
+  });
+
+  it("reuses the prefetched result when navigating to the URL", () => {
+    const { routes, loader } = createRoutes();
+    render(<Router routes={routes} />);
+
+    prefetch("/users/1");
+    act(() => {
+      mockNavigation.__simulateNavigation("http://localhost/users/1");
+    });
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("User 1 (1)")).toBeInTheDocument();
+  });
+
+  it("does not run loaders again when prefetching the same URL twice", () => {
+    const { routes, loader } = createRoutes();
+    render(<Router routes={routes} />);
+
+    prefetch("/users/1");
+    prefetch("/users/1#profile");
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("discards prefetched results after prefetchExpiryMs", () => {
+    const { routes, loader } = createRoutes();
+    render(<Router routes={routes} prefetchExpiryMs={1000} />);
+
+    prefetch("/users/1");
+    vi.advanceTimersByTime(1000);
+    act(() => {
+      mockNavigation.__simulateNavigation("http://localhost/users/1");
+    });
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(screen.getByText("User 1 (2)")).toBeInTheDocument();
+  });
+
+  it("deletes expired prefetched results on navigation", () => {
+    const { routes } = createRoutes();
+    const loaderCache = new Map<string, unknown>();
+    render(
+      <Router
+        routes={routes}
+        loaderCache={loaderCache}
+        prefetchExpiryMs={1000}
+      />,
+    );
+
+    prefetch("/users/1");
+    vi.advanceTimersByTime(1000);
+    act(() => {
+      mockNavigation.__simulateNavigation("http://localhost/users/2");
+    });
+
+    expect(
+      [...loaderCache.keys()].filter((key) => key.startsWith("prefetch:")),
+    ).toEqual([]);
+  });
+
+  it("does not reuse results prefetched for another URL", () => {
+    const { routes, loader } = createRoutes();
+    render(<Router routes={routes} />);
+
+    prefetch("/users/2");
+    act(() => {
+      mockNavigation.__simulateNavigation("http://localhost/users/1");
+    });
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(screen.getByText("User 1 (2)")).toBeInTheDocument();
+  });
+
+  it("keeps prefetched results in the Router's own loader cache", () => {
+    const { routes, loader } = createRoutes();
+    const loaderCache = new Map<string, unknown>();
+    const { unmount } = render(
+      <Router routes={routes} loaderCache={loaderCache} />,
+    );
+
+    prefetch("/users/1");
+    expect([...loaderCache.keys()]).toEqual([
+      "prefetch:http://localhost/users/1:0",
+    ]);
+    unmount();
+
+    // Another Router with the same routes does not see the result
+    render(<Router routes={routes} />);
+    act(() => {
+      mockNavigation.__simulateNavigation("http://localhost/users/1");
+    });
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(screen.getByText("User 1 (2)")).toBeInTheDocument();
+    expect(loaderCache.size).toBe(1);
+  });
+
+  it("ignores URLs of other origins", () => {
+    const { routes, loader } = createRoutes();
+    render(<Router routes={routes} />);
+
+    prefetch("https://example.com/users/1");
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it("throws when used outside a Router", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => render(<Home />)).toThrow(
+      "usePrefetch must be used within a Router",
+    );
+  });
+});
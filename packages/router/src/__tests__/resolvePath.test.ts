@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { getMatchedPathname, resolvePath } from "../core/resolvePath.js";
+import { matchRoutes } from "../core/matchRoutes.js";
+import { internalRoutes } from "../types.js";
+
+describe("resolvePath", () => {
+  it("resolves child paths below the base pathname", () => {
+    expect(resolvePath("details", "/users/1")).toBe("/users/1/details");
+    expect(resolvePath("./details", "/users/1")).toBe("/users/1/details");
+    expect(resolvePath("details", "/")).toBe("/details");
+  });
+
+  it("resolves parent segments from the base pathname", () => {
+    expect(resolvePath("../edit", "/users/1")).toBe("/users/edit");
+    expect(resolvePath("../../about", "/users/1")).toBe("/about");
+    expect(resolvePath("..", "/users/1")).toBe("/users");
+    expect(resolvePath("../..", "/users/1")).toBe("/");
+    expect(resolvePath("../../..", "/users/1")).toBe("/");
+    expect(resolvePath(".", "/users/1")).toBe("/users/1");
+  });
+
+  it("keeps search and hash of relative paths", () => {
+    expect(resolvePath("../2?tab=posts#top", "/users/1")).toBe(
+      "/users/2?tab=posts#top",
+    );
+  });
+
+  it("keeps trailing slashes given in the path", () => {
+    expect(resolvePath("details/", "/users/1")).toBe("/users/1/details/");
+  });
+
+  it("leaves absolute paths, URLs and search or hash targets as-is", () => {
+    expect(resolvePath("/about", "/users/1")).toBe("/about");
+    expect(resolvePath("https://example.com/", "/users/1")).toBe(
+      "https://example.com/",
+    );
+    expect(resolvePath("mailto:a@example.com", "/users/1")).toBe(
+      "mailto:a@example.com",
+    );
+    expect(resolvePath("//example.com/", "/users/1")).toBe("//example.com/");
+    expect(resolvePath("?page=2", "/users/1")).toBe("?page=2");
+    expect(resolvePath("#top", "/users/1")).toBe("#top");
+  });
+});
+
+describe("getMatchedPathname", () => {
+  it("joins pathnames consumed by matched routes", () => {
+    const routes = internalRoutes([
+      {
+        path: "/",
+        component: () => null,
+        children: [
+          {
+            path: "users",
+            component: () => null,
+            children: [{ path: ":id", component: () => null }],
+          },
+        ],
+      },
+    ]);
+
+    const matched = matchRoutes(routes, "/users/1")!;
+    expect(getMatchedPathname(matched, 0)).toBe("/");
+    expect(getMatchedPathname(matched, 1)).toBe("/users");
+    expect(getMatchedPathname(matched, 2)).toBe("/users/1");
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { use } from "react";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { Outlet } from "../Outlet.js";
+import { route } from "../route.js";
+import {
+  useRevalidate,
+  type RevalidateTarget,
+} from "../hooks/useRevalidate.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+
+describe("useRevalidate", () => {
+  beforeEach(() => {
+    setupNavigationMock("http://localhost/users/1");
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    vi.restoreAllMocks();
+  });
+
+  function RevalidateButton({ target }: { target?: RevalidateTarget }) {
+    const { revalidate, isRevalidating } = useRevalidate();
+    return (
+      <button onClick={() => revalidate(target)}>
+        {isRevalidating ? "Revalidating" : "Revalidate"}
+      </button>
+    );
+  }
+
+  function createRoutes(
+    target?: (routes: {
+      layout: ReturnType<typeof route>;
+      user: ReturnType<typeof route>;
+    }) => RevalidateTarget,
+  ) {
+    let layoutCount = 0;
+    let userCount = 0;
+    const layoutLoader = vi.fn(() => `layout ${++layoutCount}`);
+    const userLoader = vi.fn(() => `user ${++userCount}`);
+
+    const user = route({
+      path: ":id",
+      loader: userLoader,
+      component: ({ data }) => <p>{data}</p>,
+    });
+    const layout = route({
+      path: "/users",
+      loader: layoutLoader,
+      component: ({ data }) => (
+        <div>
+          <h1>{data}</h1>
+          <RevalidateButton target={target?.({ layout, user })} />
+          <Outlet />
+        </div>
+      ),
+      children: [user],
+    });
+
+    return { routes: [layout], layoutLoader, userLoader };
+  }
+
+  it("re-runs loaders of all matched routes", () => {
+    const { routes, layoutLoader, userLoader } = createRoutes();
+    render(<Router routes={routes} />);
+    expect(screen.getByText("layout 1")).toBeInTheDocument();
+    expect(screen.getByText("user 1")).toBeInTheDocument();
+
+    act(() => {
+      fireEvent.click(screen.getByRole("button"));
+    });
+
+    expect(layoutLoader).toHaveBeenCalledTimes(2);
+    expect(userLoader).toHaveBeenCalledTimes(2);
+    expect(screen.getByText("layout 2")).toBeInTheDocument();
+    expect(screen.getByText("user 2")).toBeInTheDocument();
+  });
+
+  it("re-runs only the loader of the given route definition", () => {
+    const { routes, layoutLoader, userLoader } = createRoutes(
+      ({ user }) => user,
+    );
+    render(<Router routes={routes} />);
+
+    act(() => {
+      fireEvent.click(screen.getByRole("button"));
+    });
+
+    expect(layoutLoader).toHaveBeenCalledTimes(1);
+    expect(userLoader).toHaveBeenCalledTimes(2);
+    expect(screen.getByText("layout 1")).toBeInTheDocument();
+    expect(screen.getByText("user 2")).toBeInTheDocument();
+  });
+
+  it("re-runs loaders of routes selected by a predicate", () => {
+    const { routes, layoutLoader, userLoader } = createRoutes(
+      () => (match) => match.route.path === "/users",
+    );
+    render(<Router routes={routes} />);
+
+    act(() => {
+      fireEvent.click(screen.getByRole("button"));
+    });
+
+    expect(layoutLoader).toHaveBeenCalledTimes(2);
+    expect(userLoader).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("layout 2")).toBeInTheDocument();
+    expect(screen.getByText("user 1")).toBeInTheDocument();
+  });
+
+  it("keeps the current data visible and reports isRevalidating while loading", async () => {
+    let resolveNext: (name: string) => void = () => {};
+    const loader = vi
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce("Alice")
+      .mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            resolveNext = resolve;
+          }),
+      );
+
+    let revalidation: Promise<void> | undefined;
+    function UserPage({ data }: { data: Promise<string> }) {
+      const { revalidate, isRevalidating } = useRevalidate();
+      return (
+        <div>
+          <p>{use(data)}</p>
+          <button
+            onClick={() => {
+              revalidation = revalidate();
+            }}
+          >
+            {isRevalidating ? "Revalidating" : "Revalidate"}
+          </button>
+        </div>
+      );
+    }
+
+    const routes = [route({ path: "/users/:id", loader, component: UserPage })];
+
+    await act(async () => {
+      render(<Router routes={routes} />);
+    });
+    expect(screen.getByText("Alice")).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button"));
+    });
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(screen.getByText("Alice")).toBeInTheDocument();
+    expect(screen.getByText("Revalidating")).toBeInTheDocument();
+
+    await act(async () => {
+      resolveNext("Bob");
+      await revalidation;
+    });
+
+    expect(screen.getByText("Bob")).toBeInTheDocument();
+    expect(screen.getByText("Revalidate")).toBeInTheDocument();
+  });
+
+  it("throws when used outside a Router", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => render(<RevalidateButton />)).toThrow(
+      "useRevalidate must be used within a Router",
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { route, type RouteErrorProps } from "../route.js";
+import { SearchParamsError } from "../core/searchParams.js";
+import type { StandardSchemaV1 } from "../core/standardSchema.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+
+/**
+ * A Standard Schema validator for { page: number; tags: string[] },
+ * as a validation library would provide.
+ */
+const productSearchSchema: StandardSchemaV1<
+  unknown,
+  { page: number; tags: string[] }
+> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const { page = "1", tags = [] } = value as Record<
+        string,
+        string | string[]
+      >;
+      const pageNumber = Number(page);
+      if (!Number.isInteger(pageNumber)) {
+        return { issues: [{ message: "page must be an integer" }] };
+      }
+      return {
+        value: {
+          page: pageNumber,
+          tags: Array.isArray(tags) ? tags : [tags],
+        },
+      };
+    },
+  },
+};
+
+describe("searchParams schema", () => {
+  let mockNavigation: ReturnType<typeof setupNavigationMock>;
+
+  beforeEach(() => {
+    mockNavigation = setupNavigationMock(
+      "http://localhost/products?page=2&tags=a&tags=b&ref=home",
+    );
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    vi.restoreAllMocks();
+  });
+
+  it("passes search parsed by a function to the component and loader", () => {
+    const loader = vi.fn(
+      ({ search }: { search: { page: number } }) => `page ${search.page}`,
+    );
+    const routes = [
+      route({
+        path: "/products",
+        searchParams: (params) => ({ page: Number(params.get("page")) }),
+        loader,
+        component: ({ data, search }) => (
+          <p>{`${data}, search page ${search.page + 1}`}</p>
+        ),
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+
+    expect(screen.getByText("page 2, search page 3")).toBeInTheDocument();
+    expect(loader.mock.calls[0][0].search).toEqual({ page: 2 });
+  });
+
+  it("validates search with a Standard Schema, with repeated keys as arrays", () => {
+    const routes = [
+      route({
+        path: "/products",
+        searchParams: productSearchSchema,
+        component: ({ search }) => (
+          <p>{`page ${search.page}, tags ${search.tags.join(",")}`}</p>
+        ),
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+
+    expect(screen.getByText("page 2, tags a,b")).toBeInTheDocument();
+  });
+
+  it("renders the errorComponent with a SearchParamsError for invalid search", () => {
+    mockNavigation = setupNavigationMock("http://localhost/products?page=x");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const loader = vi.fn(() => "products");
+
+    function ProductsError({ error }: RouteErrorProps<Record<string, never>>) {
+      return (
+        <p>
+          {error instanceof SearchParamsError
+            ? error.issues.map((issue) => issue.message).join()
+            : "other error"}
+        </p>
+      );
+    }
+
+    const routes = [
+      route({
+        path: "/products",
+        searchParams: productSearchSchema,
+        loader,
+        component: ({ data }) => <p>{data}</p>,
+        errorComponent: ProductsError,
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+
+    expect(screen.getByText("page must be an integer")).toBeInTheDocument();
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it("serializes search from setSearch, keeping other keys", () => {
+    const routes = [
+      route({
+        path: "/products",
+        searchParams: productSearchSchema,
+        component: ({ search, setSearch }) => (
+          <div>
+            <button onClick={() => setSearch((prev) => ({ ...prev, page: 3 }))}>
+              Next
+            </button>
+            <button onClick={() => setSearch({ page: 1, tags: [] })}>
+              Reset
+            </button>
+            <p>{`page ${search.page}`}</p>
+          </div>
+        ),
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+
+    act(() => {
+      fireEvent.click(screen.getByText("Next"));
+    });
+    expect(mockNavigation.navigate).toHaveBeenLastCalledWith(
+      "/products?ref=home&page=3&tags=a&tags=b",
+      expect.objectContaining({ history: "replace" }),
+    );
+    expect(screen.getByText("page 3")).toBeInTheDocument();
+
+    act(() => {
+      fireEvent.click(screen.getByText("Reset"));
+    });
+    expect(mockNavigation.navigate).toHaveBeenLastCalledWith(
+      "/products?ref=home&page=1",
+      expect.objectContaining({ history: "replace" }),
+    );
+  });
+
+  it("does not pass search props to routes without a schema", () => {
+    const component = vi.fn(() => <p>Products</p>);
+    const routes = [route({ path: "/products", component })];
+
+    render(<Router routes={routes} />);
+
+    expect(component).toHaveBeenCalledWith(
+      expect.not.objectContaining({ search: expect.anything() }),
+      undefined,
+    );
+  });
+
+  it("rejects asynchronous Standard Schema validation", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const asyncSchema: StandardSchemaV1<unknown, { page: number }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async () => ({ value: { page: 1 } }),
+      },
+    };
+    const routes = [
+      route({
+        path: "/products",
+        searchParams: asyncSchema,
+        component: () => <p>Products</p>,
+        errorComponent: ({ error }) => <p>{String(error)}</p>,
+      }),
+    ];
+
+    render(<Router routes={routes} />);
+
+    expect(
+      screen.getByText(
+        "TypeError: Search params schemas must validate synchronously",
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it("types search from the schema", () => {
+    route({
+      path: "/products",
+      searchParams: productSearchSchema,
+      // @ts-expect-error - page is a number
+      component: ({ search }: { search: { page: string } }) => (
+        <p>{search.page}</p>
+      ),
+    });
+    route({
+      path: "/products",
+      searchParams: (params) => ({ q: params.get("q") ?? "" }),
+      loader: ({ search }) => search.q.toUpperCase(),
+      component: ({ data, setSearch }) => (
+        <button onClick={() => setSearch({ q: data.toLowerCase() })}>
+          {data}
+        </button>
+      ),
+    });
+  });
+});
@@ -1,5 +1,4 @@
 import { vi } from "vitest";
-import { resetNavigationState } from "../core/NavigationAPIAdapter.js";
 
 // Mock Navigation API for testing
 export function createMockNavigation(initialUrl = "http://localhost/") {
@@ -69,6 +68,13 @@ export function createMockNavigation(initialUrl = "http://localhost/") {
     }
   };
 
+  // Create a mock NavigationCurrentEntryChangeEvent
+  const createCurrentEntryChangeEvent = (
+    navigationType: NavigateEvent["navigationType"] | null,
+    from: MockNavigationHistoryEntry,
+  ): Event =>
+    Object.assign(new Event("currententrychange"), { navigationType, from });
+
   // Create a mock NavigateEvent
   const createMockNavigateEvent = (
     destinationUrl: string,
@@ -121,6 +127,7 @@ export function createMockNavigation(initialUrl = "http://localhost/") {
         options?: { state?: unknown; history?: string; info?: unknown },
       ) => {
         const newUrl = new URL(url, currentEntry.url).href;
+        const fromEntry = currentEntry;
 
         // Store info for testing and dispatch navigate event with info
         mockNavigation.__lastNavigateInfo = options?.info;
@@ -156,7 +163,13 @@ export function createMockNavigation(initialUrl = "http://localhost/") {
         mockNavigation.currentEntry = currentEntry;
 
         // Dispatch currententrychange event
-        dispatchEvent("currententrychange", new Event("currententrychange"));
+        dispatchEvent(
+          "currententrychange",
+          createCurrentEntryChangeEvent(
+            options?.history === "replace" ? "replace" : "push",
+            fromEntry,
+          ),
+        );
 
         return {
           committed: Promise.resolve(currentEntry),
@@ -168,15 +181,25 @@ export function createMockNavigation(initialUrl = "http://localhost/") {
     updateCurrentEntry: vi.fn((options: { state: unknown }) => {
       currentEntry.__updateState(options.state);
       // Dispatch currententrychange event to notify subscribers
-      dispatchEvent("currententrychange", new Event("currententrychange"));
+      dispatchEvent(
+        "currententrychange",
+        createCurrentEntryChangeEvent(null, currentEntry),
+      );
     }),
 
     addEventListener: vi.fn(
-      (type: string, listener: (event: Event) => void) => {
+      (
+        type: string,
+        listener: (event: Event) => void,
+        options?: AddEventListenerOptions,
+      ) => {
         if (!listeners.has(type)) {
           listeners.set(type, new Set());
         }
         listeners.get(type)!.add(listener);
+        options?.signal?.addEventListener("abort", () => {
+          listeners.get(type)?.delete(listener);
+        });
       },
     ),
 
@@ -219,6 +242,7 @@ export function createMockNavigation(initialUrl = "http://localhost/") {
               disposedEntry.__dispose();
             }
 
+            const fromEntry = currentEntry;
             const newEntry = new MockNavigationHistoryEntry(
               newUrl,
               entries.length,
@@ -228,7 +252,7 @@ export function createMockNavigation(initialUrl = "http://localhost/") {
             mockNavigation.currentEntry = currentEntry;
             dispatchEvent(
               "currententrychange",
-              new Event("currententrychange"),
+              createCurrentEntryChangeEvent("push", fromEntry),
             );
           }
         },
@@ -241,9 +265,18 @@ export function createMockNavigation(initialUrl = "http://localhost/") {
       if (entryIndex < 0 || entryIndex >= entries.length) {
         throw new Error(`Invalid entry index: ${entryIndex}`);
       }
+      const fromEntry = currentEntry;
       currentEntry = entries[entryIndex];
       mockNavigation.currentEntry = currentEntry;
-      dispatchEvent("currententrychange", new Event("currententrychange"));
+      dispatchEvent(
+        "currententrychange",
+        createCurrentEntryChangeEvent("traverse", fromEntry),
+      );
+    },
+
+    // Test helper to dispatch navigation events such as navigatesuccess
+    __dispatchEvent(type: string) {
+      dispatchEvent(type, new Event(type));
     },
 
     // Test helper to get listeners
@@ -285,5 +318,4 @@ export function setupNavigationMock(initialUrl = "http://localhost/") {
 // Cleanup
 export function cleanupNavigationMock() {
   delete (globalThis as Record<string, unknown>).navigation;
-  resetNavigationState();
 }
@@ -0,0 +1,225 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { renderToString } from "react-dom/server";
+import { Router } from "../Router.js";
+import { Outlet } from "../Outlet.js";
+import { useLocation } from "../hooks/useLocation.js";
+import { route, type RouteDefinition } from "../route.js";
+import { createLoaderDataCollector } from "../core/hydration.js";
+
+describe("Server-side rendering", () => {
+  it("renders nothing when no url is given", () => {
+    const routes: RouteDefinition[] = [
+      { path: "/", component: () => <div>Home Page</div> },
+    ];
+
+    const html = renderToString(<Router routes={routes} />);
+    expect(html).toBe("");
+  });
+
+  it("renders the route matching the request url", () => {
+    function Layout() {
+      return (
+        <div>
+          <header>Header</header>
+          <Outlet />
+        </div>
+      );
+    }
+
+    const routes = [
+      route({
+        path: "/",
+        component: Layout,
+        children: [
+          route({ path: "", component: () => <p>Home</p> }),
+          route({
+            path: "users/:id",
+            component: ({ params }) => <p>{`User ${params.id}`}</p>,
+          }),
+        ],
+      }),
+    ];
+
+    const html = renderToString(
+      <Router routes={routes} url="http://localhost/users/42" />,
+    );
+    expect(html).toContain("Header");
+    expect(html).toContain("User 42");
+    expect(html).not.toContain("Home");
+  });
+
+  it("provides the request location via useLocation", () => {
+    function Page() {
+      const location = useLocation();
+      return <p>{`${location.pathname}${location.search}`}</p>;
+    }
+
+    const routes: RouteDefinition[] = [{ path: "/page", component: Page }];
+
+    const html = renderToString(
+      <Router routes={routes} url={new URL("http://localhost/page?q=1")} />,
+    );
+    expect(html).toContain("/page?q=1");
+  });
+
+  it("renders nothing when no route matches the request url", () => {
+    const routes: RouteDefinition[] = [
+      { path: "/", component: () => <div>Home Page</div> },
+    ];
+
+    const html = renderToString(
+      <Router routes={routes} url="http://localhost/unknown" />,
+    );
+    expect(html).toBe("");
+  });
+
+  it("runs loaders for every request", () => {
+    const loader = vi.fn(({ params }: { params: Record<string, string> }) => ({
+      name: `User ${params.id}`,
+    }));
+
+    const routes = [
+      route({
+        path: "/users/:id",
+        loader,
+        component: ({ data }) => <p>{data.name}</p>,
+      }),
+    ];
+
+    const first = renderToString(
+      <Router routes={routes} url="http://localhost/users/1" />,
+    );
+    const second = renderToString(
+      <Router routes={routes} url="http://localhost/users/2" />,
+    );
+    const third = renderToString(
+      <Router routes={routes} url="http://localhost/users/1" />,
+    );
+
+    expect(first).toContain("User 1");
+    expect(second).toContain("User 2");
+    expect(third).toContain("User 1");
+    // Loader results are not shared between requests
+    expect(loader).toHaveBeenCalledTimes(3);
+    expect(loader).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: { id: "2" },
+        request: expect.objectContaining({
+          url: "http://localhost/users/2",
+        }),
+      }),
+    );
+  });
+
+  describe("loaderDataCollector", () => {
+    it("serializes settled loader results for the rendered url", async () => {
+      const routes = [
+        route({
+          path: "/",
+          loader: () => ({ title: "Layout" }),
+          component: () => <Outlet />,
+          children: [
+            route({ path: "", component: () => <p>Home</p> }),
+            route({
+              path: "users/:id",
+              loader: async ({ params }) => ({ id: params.id }),
+              component: () => <p>User</p>,
+            }),
+          ],
+        }),
+      ];
+
+      const collector = createLoaderDataCollector();
+      renderToString(
+        <Router
+          routes={routes}
+          url="http://localhost/users/7"
+          loaderDataCollector={collector}
+        />,
+      );
+
+      expect(await collector.getHydrationData()).toEqual({
+        url: "http://localhost/users/7",
+        results: [
+          { type: "value", value: { title: "Layout" } },
+          { type: "promise", value: { id: "7" } },
+        ],
+      });
+    });
+
+    it("records null for routes without loaders and failed loaders", async () => {
+      const routes = [
+        route({
+          path: "/",
+          component: () => <Outlet />,
+          children: [
+            route({
+              path: "broken",
+              loader: () => Promise.reject(new Error("failed")),
+              component: () => <p>Broken</p>,
+            }),
+          ],
+        }),
+      ];
+
+      const collector = createLoaderDataCollector();
+      renderToString(
+        <Router
+          routes={routes}
+          url="http://localhost/broken"
+          loaderDataCollector={collector}
+        />,
+      );
+
+      expect(await collector.getHydrationData()).toEqual({
+        url: "http://localhost/broken",
+        results: [null, null],
+      });
+    });
+
+    it("returns null when nothing was rendered", async () => {
+      const collector = createLoaderDataCollector();
+      renderToString(
+        <Router
+          routes={[{ path: "/", component: () => <p>Home</p> }]}
+          url="http://localhost/unknown"
+          loaderDataCollector={collector}
+        />,
+      );
+
+      expect(await collector.getHydrationData()).toBeNull();
+    });
+
+    it("serializes to JSON that is safe to embed in a script element", async () => {
+      const routes = [
+        route({
+          path: "/",
+          loader: () => ({ html: "</script><script>alert(1)</script>" }),
+          component: () => <p>Home</p>,
+        }),
+      ];
+
+      const collector = createLoaderDataCollector();
+      renderToString(
+        <Router
+          routes={routes}
+          url="http://localhost/"
+          loaderDataCollector={collector}
+        />,
+      );
+
+      const payload = await collector.serialize();
+      expect(payload).not.toContain("</script>");
+      expect(JSON.parse(payload)).toEqual({
+        url: "http://localhost/",
+        results: [
+          {
+            type: "value",
+            value: { html: "</script><script>alert(1)</script>" },
+          },
+        ],
+      });
+    });
+  });
+});
@@ -1,19 +1,22 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { render, screen, act, fireEvent } from "@testing-library/react";
 import { Router } from "../Router.js";
 import { Outlet } from "../Outlet.js";
 import { route, routeState, type RouteComponentProps } from "../route.js";
 import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
-import { clearLoaderCache } from "../core/loaderCache.js";
+import type { StandardSchemaV1 } from "../core/standardSchema.js";
+import type { StateStorage } from "../core/stateStorage.js";
 
 describe("Navigation State Management", () => {
+  let mockNavigation: ReturnType<typeof setupNavigationMock>;
+
   beforeEach(() => {
-    setupNavigationMock("http://localhost/");
-    clearLoaderCache();
+    mockNavigation = setupNavigationMock("http://localhost/");
   });
 
   afterEach(() => {
     cleanupNavigationMock();
+    vi.restoreAllMocks();
   });
 
   describe("state prop", () => {
@@ -490,4 +493,570 @@ describe("Navigation State Management", () => {
       expect(screen.getByText("banana")).toBeInTheDocument();
     });
   });
+
+  describe("state schema", () => {
+    type PageState = { count: number };
+
+    /** A Standard Schema validator, as a validation library would provide */
+    const pageStateSchema: StandardSchemaV1<unknown, PageState> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          typeof (value as PageState | null)?.count === "number"
+            ? { value: value as PageState }
+            : { issues: [{ message: "count must be a number" }] },
+      },
+    };
+
+    function Page({
+      state,
+      setStateSync,
+    }: RouteComponentProps<Record<string, never>, PageState>) {
+      return (
+        <div>
+          <span>Count: {state === undefined ? "undefined" : state.count}</span>
+          <button
+            onClick={() =>
+              setStateSync((prev) => ({ count: (prev?.count ?? 0) + 1 }))
+            }
+          >
+            Increment
+          </button>
+        </div>
+      );
+    }
+
+    function storeState(state: unknown) {
+      mockNavigation.updateCurrentEntry({
+        state: { __routeStates: { "/": state } },
+      });
+    }
+
+    it("passes stored state that matches the schema", () => {
+      storeState({ count: 3 });
+      const routes = [
+        routeState({ schema: pageStateSchema })({ path: "/", component: Page }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Count: 3")).toBeInTheDocument();
+    });
+
+    it("reads stored state that does not match the schema as undefined", () => {
+      storeState({ count: "3" });
+      const routes = [
+        routeState({ schema: pageStateSchema })({ path: "/", component: Page }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Count: undefined")).toBeInTheDocument();
+
+      act(() => {
+        fireEvent.click(screen.getByRole("button"));
+      });
+      expect(screen.getByText("Count: 1")).toBeInTheDocument();
+    });
+
+    it("uses the state returned by onInvalidState", () => {
+      storeState({ clicks: 7 });
+      const onInvalidState = vi.fn((state: unknown) =>
+        typeof (state as { clicks?: unknown }).clicks === "number"
+          ? { count: (state as { clicks: number }).clicks }
+          : undefined,
+      );
+      const routes = [
+        routeState({ schema: pageStateSchema, onInvalidState })({
+          path: "/",
+          component: Page,
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Count: 7")).toBeInTheDocument();
+      expect(onInvalidState).toHaveBeenCalledWith({ clicks: 7 }, [
+        { message: "count must be a number" },
+      ]);
+
+      // Updaters receive the migrated state
+      act(() => {
+        fireEvent.click(screen.getByRole("button"));
+      });
+      expect(screen.getByText("Count: 8")).toBeInTheDocument();
+    });
+
+    it("accepts a parse function that throws for invalid state", () => {
+      storeState({ count: "3" });
+      const parsePageState = (state: unknown): PageState => {
+        if (typeof (state as PageState).count !== "number") {
+          throw new Error("count must be a number");
+        }
+        return state as PageState;
+      };
+      const onInvalidState = vi.fn(() => undefined);
+      const routes = [
+        routeState({ schema: parsePageState, onInvalidState })({
+          path: "/",
+          component: Page,
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Count: undefined")).toBeInTheDocument();
+      expect(onInvalidState).toHaveBeenCalledWith({ count: "3" }, [
+        { message: "count must be a number" },
+      ]);
+    });
+
+    it("does not validate undefined state", () => {
+      const validate = vi.spyOn(pageStateSchema["~standard"], "validate");
+      const routes = [
+        routeState({ schema: pageStateSchema })({ path: "/", component: Page }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Count: undefined")).toBeInTheDocument();
+      expect(validate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("state versions", () => {
+    type PageState = { count: number };
+
+    function Page({
+      state,
+      setStateSync,
+    }: RouteComponentProps<Record<string, never>, PageState>) {
+      return (
+        <div>
+          <span>Count: {state === undefined ? "undefined" : state.count}</span>
+          <button
+            onClick={() =>
+              setStateSync((prev) => ({ count: (prev?.count ?? 0) + 1 }))
+            }
+          >
+            Increment
+          </button>
+        </div>
+      );
+    }
+
+    function storedState() {
+      return mockNavigation.currentEntry?.getState();
+    }
+
+    it("records the route's state version with written state", () => {
+      const routes = [
+        routeState<PageState>({ version: 2 })({ path: "/", component: Page }),
+      ];
+
+      render(<Router routes={routes} />);
+      act(() => {
+        fireEvent.click(screen.getByRole("button"));
+      });
+
+      expect(storedState()).toEqual({
+        __routeStates: { "/": { count: 1 } },
+        __routeStateVersions: { "/": 2 },
+      });
+    });
+
+    it("migrates state stored with an older version and writes it back", () => {
+      // Written before versions were recorded, i.e. version 0
+      mockNavigation.updateCurrentEntry({
+        state: { __routeStates: { "/": { clicks: 7 } } },
+      });
+      const migrate = vi.fn((oldState: unknown, fromVersion: number) =>
+        fromVersion === 0
+          ? { count: (oldState as { clicks: number }).clicks }
+          : undefined,
+      );
+      const routes = [
+        routeState<PageState>({ version: 1, migrate })({
+          path: "/",
+          component: Page,
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+
+      expect(screen.getByText("Count: 7")).toBeInTheDocument();
+      expect(migrate).toHaveBeenCalledWith({ clicks: 7 }, 0);
+      expect(storedState()).toEqual({
+        __routeStates: { "/": { count: 7 } },
+        __routeStateVersions: { "/": 1 },
+      });
+
+      // Written back state is current and not migrated again
+      migrate.mockClear();
+      act(() => {
+        fireEvent.click(screen.getByRole("button"));
+      });
+      expect(screen.getByText("Count: 8")).toBeInTheDocument();
+      expect(migrate).not.toHaveBeenCalled();
+    });
+
+    it("drops state of another version without migrate", () => {
+      mockNavigation.updateCurrentEntry({
+        state: {
+          __routeStates: { "/": { count: 3 } },
+          __routeStateVersions: { "/": 1 },
+        },
+      });
+      const routes = [
+        routeState<PageState>({ version: 2 })({ path: "/", component: Page }),
+      ];
+
+      render(<Router routes={routes} />);
+
+      expect(screen.getByText("Count: undefined")).toBeInTheDocument();
+      expect(storedState()).toEqual({
+        __routeStates: { "/": undefined },
+        __routeStateVersions: { "/": 2 },
+      });
+    });
+
+    it("only migrates the state of routes whose version changed", () => {
+      mockNavigation = setupNavigationMock("http://localhost/child");
+      mockNavigation.updateCurrentEntry({
+        state: {
+          __routeStates: { "/": { count: 1 }, "/child": { count: 2 } },
+          __routeStateVersions: { "/": 1, "/child": 1 },
+        },
+      });
+      function Layout(
+        props: RouteComponentProps<Record<string, never>, PageState>,
+      ) {
+        return (
+          <div>
+            <Page {...props} />
+            <Outlet />
+          </div>
+        );
+      }
+      const routes = [
+        routeState<PageState>({ version: 1 })({
+          path: "/",
+          component: Layout,
+          children: [
+            routeState<PageState>({
+              version: 2,
+              migrate: (oldState) => ({
+                count: (oldState as PageState).count * 10,
+              }),
+            })({ path: "child", component: Page }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+
+      expect(screen.getByText("Count: 1")).toBeInTheDocument();
+      expect(screen.getByText("Count: 20")).toBeInTheDocument();
+      expect(storedState()).toEqual({
+        __routeStates: { "/": { count: 1 }, "/child": { count: 20 } },
+        __routeStateVersions: { "/": 1, "/child": 2 },
+      });
+    });
+  });
+
+  describe("state keyed by route", () => {
+    type PageState = { count: number };
+
+    function Counter({
+      state,
+      setStateSync,
+    }: RouteComponentProps<Record<string, string>, PageState>) {
+      return (
+        <button
+          onClick={() =>
+            setStateSync((prev) => ({ count: (prev?.count ?? 0) + 1 }))
+          }
+        >
+          Count: {state?.count ?? 0}
+        </button>
+      );
+    }
+
+    function storedState() {
+      return mockNavigation.currentEntry?.getState();
+    }
+
+    it("keys state by the route's full path pattern", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      const routes = [
+        route({
+          path: "/users",
+          component: Outlet,
+          children: [
+            routeState<PageState>()({ path: ":id", component: Counter }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      act(() => {
+        fireEvent.click(screen.getByRole("button"));
+      });
+
+      expect(storedState()).toEqual({
+        __routeStates: { "/users/:id": { count: 1 } },
+        __routeStateVersions: { "/users/:id": 0 },
+      });
+    });
+
+    it("keys state by an explicit id and tells apart index routes", () => {
+      const routes = [
+        routeState<PageState>()({
+          path: "/",
+          id: "layout",
+          component: (props) => (
+            <div>
+              <Counter {...props} />
+              <Outlet />
+            </div>
+          ),
+          children: [
+            route({
+              path: "",
+              component: () => (
+                <div>
+                  <Outlet />
+                </div>
+              ),
+              children: [
+                routeState<PageState>()({ path: "", component: Counter }),
+              ],
+            }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      const [layoutButton, indexButton] = screen.getAllByRole("button");
+      act(() => {
+        fireEvent.click(layoutButton);
+      });
+      act(() => {
+        fireEvent.click(indexButton);
+      });
+
+      expect(storedState()).toEqual({
+        __routeStates: { layout: { count: 1 }, "/#2": { count: 1 } },
+        __routeStateVersions: { layout: 0, "/#2": 0 },
+      });
+    });
+
+    it("keeps state with its route when a layout is inserted above it", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      mockNavigation.updateCurrentEntry({
+        state: { __routeStates: { "/users/:id": { count: 5 } } },
+      });
+      const routes = [
+        route({
+          path: "/",
+          component: Outlet,
+          children: [
+            route({
+              path: "users",
+              component: Outlet,
+              children: [
+                routeState<PageState>()({ path: ":id", component: Counter }),
+              ],
+            }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Count: 5")).toBeInTheDocument();
+    });
+
+    it("reads state in the legacy index format and converts it", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      mockNavigation.updateCurrentEntry({
+        state: { __routeStates: [undefined, { count: 5 }] },
+      });
+      const routes = [
+        route({
+          path: "/users",
+          component: Outlet,
+          children: [
+            routeState<PageState>()({ path: ":id", component: Counter }),
+          ],
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+
+      expect(screen.getByText("Count: 5")).toBeInTheDocument();
+      expect(storedState()).toEqual({
+        __routeStates: { "/users/:id": { count: 5 } },
+        __routeStateVersions: { "/users/:id": 0 },
+      });
+    });
+  });
+
+  describe("persisted state", () => {
+    type PageState = { count: number };
+
+    function Counter({
+      state,
+      setStateSync,
+      resetState,
+    }: RouteComponentProps<Record<string, string>, PageState>) {
+      return (
+        <div>
+          <button
+            onClick={() =>
+              setStateSync((prev) => ({ count: (prev?.count ?? 0) + 1 }))
+            }
+          >
+            Count: {state?.count ?? 0}
+          </button>
+          <button onClick={resetState}>Reset</button>
+        </div>
+      );
+    }
+
+    function createStorage(): StateStorage & { items: Map<string, string> } {
+      const items = new Map<string, string>();
+      return {
+        items,
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+        removeItem: (key) => void items.delete(key),
+      };
+    }
+
+    function userRoutes(storage: StateStorage, version?: number) {
+      return [
+        routeState<PageState>({
+          persist: storage,
+          version,
+          migrate: (oldState) => ({
+            count: (oldState as PageState).count * 10,
+          }),
+        })({ path: "/users/:id", component: Counter }),
+      ];
+    }
+
+    it("mirrors state to storage under a key of the route and params", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      const storage = createStorage();
+
+      render(<Router routes={userRoutes(storage)} />);
+      act(() => {
+        fireEvent.click(screen.getByText("Count: 0"));
+      });
+
+      expect(storage.items).toEqual(
+        new Map([
+          [
+            "@funstack/router:state:/users/:id?id=1",
+            JSON.stringify({ state: { count: 1 }, version: 0 }),
+          ],
+        ]),
+      );
+    });
+
+    it("restores persisted state when the entry has none", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      const storage = createStorage();
+      storage.setItem(
+        "@funstack/router:state:/users/:id?id=1",
+        JSON.stringify({ state: { count: 4 }, version: 0 }),
+      );
+      storage.setItem(
+        "@funstack/router:state:/users/:id?id=2",
+        JSON.stringify({ state: { count: 9 }, version: 0 }),
+      );
+
+      render(<Router routes={userRoutes(storage)} />);
+      expect(screen.getByText("Count: 4")).toBeInTheDocument();
+
+      act(() => {
+        fireEvent.click(screen.getByText("Count: 4"));
+      });
+      expect(screen.getByText("Count: 5")).toBeInTheDocument();
+    });
+
+    it("prefers state in the history entry over persisted state", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      mockNavigation.updateCurrentEntry({
+        state: { __routeStates: { "/users/:id": { count: 2 } } },
+      });
+      const storage = createStorage();
+      storage.setItem(
+        "@funstack/router:state:/users/:id?id=1",
+        JSON.stringify({ state: { count: 4 }, version: 0 }),
+      );
+
+      render(<Router routes={userRoutes(storage)} />);
+      expect(screen.getByText("Count: 2")).toBeInTheDocument();
+    });
+
+    it("migrates persisted state stored with an older version", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      const storage = createStorage();
+      storage.setItem(
+        "@funstack/router:state:/users/:id?id=1",
+        JSON.stringify({ state: { count: 4 }, version: 1 }),
+      );
+
+      render(<Router routes={userRoutes(storage, 2)} />);
+      expect(screen.getByText("Count: 40")).toBeInTheDocument();
+    });
+
+    it("removes persisted state on resetState", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      const storage = createStorage();
+
+      render(<Router routes={userRoutes(storage)} />);
+      act(() => {
+        fireEvent.click(screen.getByText("Count: 0"));
+      });
+      act(() => {
+        fireEvent.click(screen.getByText("Reset"));
+      });
+
+      expect(storage.items.size).toBe(0);
+      expect(screen.getByText("Count: 0")).toBeInTheDocument();
+    });
+
+    it("ignores unparseable persisted state and storage errors", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      const storage = createStorage();
+      storage.setItem("@funstack/router:state:/users/:id?id=1", "{");
+      storage.setItem = () => {
+        throw new Error("QuotaExceededError");
+      };
+
+      render(<Router routes={userRoutes(storage)} />);
+      expect(screen.getByText("Count: 0")).toBeInTheDocument();
+
+      act(() => {
+        fireEvent.click(screen.getByText("Count: 0"));
+      });
+      expect(screen.getByText("Count: 1")).toBeInTheDocument();
+    });
+
+    it("uses sessionStorage by name", () => {
+      mockNavigation = setupNavigationMock("http://localhost/users/1");
+      sessionStorage.setItem(
+        "@funstack/router:state:/users/:id?id=1",
+        JSON.stringify({ state: { count: 7 }, version: 0 }),
+      );
+      const routes = [
+        routeState<PageState>({ persist: "sessionStorage" })({
+          path: "/users/:id",
+          component: Counter,
+        }),
+      ];
+
+      render(<Router routes={routes} />);
+      expect(screen.getByText("Count: 7")).toBeInTheDocument();
+      sessionStorage.clear();
+    });
+  });
 });
@@ -0,0 +1,257 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { use } from "react";
+import { screen, act, fireEvent } from "@testing-library/react";
+import { Link } from "../Link.js";
+import { route, type LoaderArgs, type RouteComponentProps } from "../route.js";
+import {
+  FakeNavigation,
+  installFakeNavigation,
+  uninstallFakeNavigation,
+  renderWithRouter,
+} from "../testing/index.js";
+
+describe("FakeNavigation", () => {
+  // A navigation whose listener intercepts every navigation, like a router
+  function createInterceptingNavigation(url: string): FakeNavigation {
+    const navigation = new FakeNavigation(url);
+    navigation.addEventListener("navigate", (event) => {
+      (event as NavigateEvent).intercept();
+    });
+    return navigation;
+  }
+
+  it("runs intercept handlers after committing the entry", async () => {
+    const navigation = new FakeNavigation("http://localhost/");
+    const calls: string[] = [];
+    navigation.addEventListener("navigate", (event) => {
+      const navigateEvent = event as NavigateEvent;
+      calls.push(`navigate ${navigateEvent.navigationType}`);
+      navigateEvent.intercept({
+        handler: async () => {
+          calls.push(`handler ${navigation.currentEntry.url}`);
+        },
+      });
+    });
+    navigation.addEventListener("currententrychange", () => {
+      calls.push("currententrychange");
+    });
+    navigation.addEventListener("navigatesuccess", () => {
+      calls.push("navigatesuccess");
+    });
+
+    const result = navigation.navigate("/about", { state: { a: 1 } });
+    const entry = await result.finished;
+
+    expect(calls).toEqual([
+      "navigate push",
+      "currententrychange",
+      "handler http://localhost/about",
+      "navigatesuccess",
+    ]);
+    expect(entry).toBe(navigation.currentEntry);
+    expect(entry.getState()).toEqual({ a: 1 });
+    expect(navigation.transition).toBeNull();
+  });
+
+  it("traverses entries and disposes those a navigation removes", async () => {
+    const navigation = createInterceptingNavigation("http://localhost/page1");
+    await navigation.navigate("/page2").finished;
+    await navigation.navigate("/page3").finished;
+    const [, second, third] = navigation.entries();
+
+    await navigation.back().finished;
+    expect(navigation.currentEntry).toBe(second);
+    expect(navigation.canGoForward).toBe(true);
+
+    const onDispose = vi.fn();
+    third!.addEventListener("dispose", onDispose);
+    await navigation.navigate("/page4").finished;
+    expect(onDispose).toHaveBeenCalledTimes(1);
+    expect(navigation.entries().map((entry) => entry.url)).toEqual([
+      "http://localhost/page1",
+      "http://localhost/page2",
+      "http://localhost/page4",
+    ]);
+
+    await navigation.traverseTo(navigation.entries()[0]!.key).finished;
+    expect(navigation.currentEntry.url).toBe("http://localhost/page1");
+  });
+
+  it("keeps the key but not the id of a replaced entry", async () => {
+    const navigation = createInterceptingNavigation("http://localhost/");
+    const initial = navigation.currentEntry;
+    const onDispose = vi.fn();
+    initial.addEventListener("dispose", onDispose);
+
+    await navigation.navigate("/replaced", { history: "replace" }).finished;
+
+    expect(navigation.currentEntry.key).toBe(initial.key);
+    expect(navigation.currentEntry.id).not.toBe(initial.id);
+    expect(onDispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects canceled navigations and aborts superseded ones", async () => {
+    const navigation = new FakeNavigation("http://localhost/");
+    const signals: AbortSignal[] = [];
+    navigation.addEventListener("navigate", (event) => {
+      const navigateEvent = event as NavigateEvent;
+      if (navigateEvent.destination.url.endsWith("/blocked")) {
+        navigateEvent.preventDefault();
+        return;
+      }
+      signals.push(navigateEvent.signal);
+      navigateEvent.intercept({ handler: () => new Promise(() => {}) });
+    });
+    const onError = vi.fn();
+    navigation.addEventListener("navigateerror", onError);
+
+    await expect(navigation.navigate("/blocked").committed).rejects.toThrow(
+      "Navigation was aborted",
+    );
+    expect(navigation.currentEntry.url).toBe("http://localhost/");
+
+    const slow = navigation.navigate("/slow");
+    navigation.navigate("/other");
+    await expect(slow.finished).rejects.toThrow("Navigation was aborted");
+    expect(signals[0]!.aborted).toBe(true);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves navigations that are not intercepted to a document load", async () => {
+    const navigation = new FakeNavigation("http://localhost/");
+    const onChange = vi.fn();
+    navigation.addEventListener("currententrychange", onChange);
+    const settled = vi.fn();
+
+    for (const url of ["/about", "https://example.com/"]) {
+      const result = navigation.navigate(url);
+      result.committed.then(settled, settled);
+      result.finished.then(settled, settled);
+    }
+
+    expect(navigation.documentLoadUrl).toBe("https://example.com/");
+    expect(navigation.currentEntry.url).toBe("http://localhost/");
+    expect(navigation.entries()).toHaveLength(1);
+    expect(navigation.transition).toBeNull();
+    expect(onChange).not.toHaveBeenCalled();
+    // The promises never settle, like in a page that unloads
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(settled).not.toHaveBeenCalled();
+  });
+
+  it("commits fragment navigations without interception", async () => {
+    const navigation = new FakeNavigation("http://localhost/page");
+    let sameDocument: boolean | undefined;
+    navigation.addEventListener("navigate", (event) => {
+      sameDocument = (event as NavigateEvent).destination.sameDocument;
+    });
+
+    await navigation.navigate("#section").finished;
+
+    expect(sameDocument).toBe(true);
+    expect(navigation.currentEntry.url).toBe("http://localhost/page#section");
+    expect(navigation.documentLoadUrl).toBeNull();
+  });
+
+  it("updates the current entry's state", () => {
+    const navigation = new FakeNavigation("http://localhost/");
+    const onChange = vi.fn((event: Event) => {
+      return (event as NavigationCurrentEntryChangeEvent).navigationType;
+    });
+    navigation.addEventListener("currententrychange", onChange);
+
+    navigation.updateCurrentEntry({ state: { count: 1 } });
+
+    expect(navigation.currentEntry.getState()).toEqual({ count: 1 });
+    expect(onChange).toHaveReturnedWith(null);
+  });
+});
+
+describe("renderWithRouter", () => {
+  afterEach(() => {
+    uninstallFakeNavigation();
+  });
+
+  function Page({ params }: RouteComponentProps<{ page: string }>) {
+    return (
+      <div>
+        <span>Page: {params.page}</span>
+        <Link href="/linked">To linked</Link>
+      </div>
+    );
+  }
+
+  it("renders the routes at the URL and follows link clicks", async () => {
+    const { navigation } = await renderWithRouter(
+      [route({ path: "/:page", component: Page })],
+      { url: "/start" },
+    );
+    expect(screen.getByText("Page: start")).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText("To linked"));
+    });
+    expect(screen.getByText("Page: linked")).toBeInTheDocument();
+    expect(navigation.currentEntry.url).toBe("http://localhost/linked");
+  });
+
+  it("awaits loaders and navigations", async () => {
+    const routes = [
+      route({
+        path: "/:page",
+        loader: async ({ params }: LoaderArgs) => `Loaded ${params.page}`,
+        component: ({ data }: { data: Promise<string> }) => (
+          <Loaded data={data} />
+        ),
+      }),
+    ];
+
+    const { navigate, navigation, waitForLoaders, waitForNavigation } =
+      await renderWithRouter(routes, { url: "/page1" });
+    await waitForLoaders();
+    expect(screen.getByText("Loaded page1")).toBeInTheDocument();
+
+    await navigate("/page2");
+    expect(screen.getByText("Loaded page2")).toBeInTheDocument();
+
+    act(() => {
+      navigation.back();
+    });
+    await waitForNavigation();
+    expect(screen.getByText("Loaded page1")).toBeInTheDocument();
+  });
+
+  it("waits for loaders returning thenables other than Promises", async () => {
+    let loaded = false;
+    const thenable: PromiseLike<string> = {
+      then(onFulfilled, onRejected) {
+        return new Promise<string>((resolve) => {
+          setTimeout(() => {
+            loaded = true;
+            resolve("Loaded");
+          }, 10);
+        }).then(onFulfilled, onRejected);
+      },
+    };
+    const routes = [
+      route({ path: "/", loader: () => thenable, component: () => null }),
+    ];
+
+    const { waitForLoaders } = await renderWithRouter(routes);
+    await waitForLoaders();
+    expect(loaded).toBe(true);
+  });
+
+  it("restores the previous global navigation when uninstalled", () => {
+    const previous = (globalThis as Record<string, unknown>).navigation;
+    const navigation = installFakeNavigation("http://localhost/");
+    expect((globalThis as Record<string, unknown>).navigation).toBe(navigation);
+
+    uninstallFakeNavigation();
+    expect((globalThis as Record<string, unknown>).navigation).toBe(previous);
+  });
+});
+
+function Loaded({ data }: { data: Promise<string> }) {
+  return <span>{use(data)}</span>;
+}
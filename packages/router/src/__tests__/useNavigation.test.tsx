@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { render, screen, cleanup, act } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { useNavigation } from "../hooks/useNavigation.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+import type { RouteDefinition } from "../route.js";
+
+describe("useNavigation", () => {
+  let mockNavigation: ReturnType<typeof setupNavigationMock>;
+
+  beforeEach(() => {
+    mockNavigation = setupNavigationMock("http://localhost/");
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    cleanup();
+  });
+
+  function NavigationStatus() {
+    const navigation = useNavigation();
+    if (navigation.state === "idle") {
+      return <p>idle</p>;
+    }
+    return (
+      <p>
+        {`${navigation.state} ${navigation.navigationType} ${navigation.url.pathname} ` +
+          navigation.matchedRoutes.map((match) => match.route.path).join(",")}
+      </p>
+    );
+  }
+
+  const routes: RouteDefinition[] = [
+    {
+      path: "/",
+      component: NavigationStatus,
+    },
+    {
+      path: "/users",
+      component: NavigationStatus,
+      children: [{ path: ":id", component: () => <div>User</div> }],
+    },
+  ];
+
+  it("throws when used outside Router", () => {
+    expect(() => render(<NavigationStatus />)).toThrow(
+      "useNavigation must be used within a Router",
+    );
+  });
+
+  it("is idle when no navigation is in progress", () => {
+    render(<Router routes={routes} />);
+    expect(screen.getByText("idle")).toBeInTheDocument();
+  });
+
+  it("reports the pending navigation until navigatesuccess", () => {
+    render(<Router routes={routes} />);
+
+    act(() => {
+      mockNavigation.__simulateNavigationWithEvent("/users/1");
+    });
+    expect(
+      screen.getByText("loading push /users/1 /users,:id"),
+    ).toBeInTheDocument();
+
+    act(() => {
+      mockNavigation.__dispatchEvent("navigatesuccess");
+    });
+    expect(screen.getByText("idle")).toBeInTheDocument();
+  });
+
+  it("returns to idle on navigateerror", () => {
+    render(<Router routes={routes} />);
+
+    act(() => {
+      mockNavigation.__simulateNavigationWithEvent("/users/1");
+    });
+    expect(screen.getByText(/^loading/)).toBeInTheDocument();
+
+    act(() => {
+      mockNavigation.__dispatchEvent("navigateerror");
+    });
+    expect(screen.getByText("idle")).toBeInTheDocument();
+  });
+
+  it("stays idle for navigations that are not intercepted", () => {
+    render(<Router routes={routes} />);
+
+    act(() => {
+      // No route matches, so the browser handles the navigation
+      mockNavigation.__simulateNavigationWithEvent("/unknown");
+    });
+    expect(screen.getByText("idle")).toBeInTheDocument();
+  });
+});
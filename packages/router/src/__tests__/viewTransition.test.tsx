@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { render, screen, act, fireEvent } from "@testing-library/react";
+import { Router } from "../Router.js";
+import { useNavigate } from "../hooks/useNavigate.js";
+import { setupNavigationMock, cleanupNavigationMock } from "./setup.js";
+import type { RouteDefinition } from "../route.js";
+import type { NavigateOptions } from "../types.js";
+
+describe("View Transitions", () => {
+  let mockNavigation: ReturnType<typeof setupNavigationMock>;
+  let updateDone: Promise<void> | undefined;
+  const startViewTransition = vi.fn(
+    (
+      options?: StartViewTransitionOptions | ViewTransitionUpdateCallback,
+    ): ViewTransition => {
+      const update = typeof options === "function" ? options : options?.update;
+      updateDone = Promise.resolve(update?.());
+      return {
+        updateCallbackDone: updateDone,
+        ready: updateDone,
+        finished: updateDone,
+        skipTransition: () => {},
+      } as ViewTransition;
+    },
+  );
+
+  beforeEach(() => {
+    mockNavigation = setupNavigationMock("http://localhost/");
+    updateDone = undefined;
+    startViewTransition.mockClear();
+    document.startViewTransition = startViewTransition;
+    // Browsers supporting view transition types
+    vi.stubGlobal(
+      "ViewTransition",
+      class {
+        get types() {
+          return new Set();
+        }
+      },
+    );
+  });
+
+  afterEach(() => {
+    cleanupNavigationMock();
+    delete (document as Partial<Document>).startViewTransition;
+    vi.unstubAllGlobals();
+  });
+
+  function NavigateButton({ options }: { options?: NavigateOptions }) {
+    const navigate = useNavigate();
+    return <button onClick={() => navigate("/about", options)}>Go</button>;
+  }
+
+  function createRoutes(options?: NavigateOptions): RouteDefinition[] {
+    return [
+      { path: "/", component: () => <NavigateButton options={options} /> },
+      { path: "/about", component: () => <h1>About</h1> },
+    ];
+  }
+
+  async function clickAndWaitForUpdate() {
+    await act(async () => {
+      fireEvent.click(screen.getByText("Go"));
+      await updateDone;
+    });
+  }
+
+  it("does not start a view transition by default", async () => {
+    render(<Router routes={createRoutes()} />);
+    await clickAndWaitForUpdate();
+
+    expect(startViewTransition).not.toHaveBeenCalled();
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+
+  it("renders the new route inside a view transition when enabled", async () => {
+    render(<Router routes={createRoutes()} viewTransition />);
+    await clickAndWaitForUpdate();
+
+    expect(startViewTransition).toHaveBeenCalledTimes(1);
+    expect(startViewTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ types: ["push"] }),
+    );
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+
+  it("keeps the old route rendered until the transition's update runs", async () => {
+    // Browsers run the update after capturing the old state
+    let runUpdate: (() => Promise<void>) | undefined;
+    startViewTransition.mockImplementationOnce((options) => {
+      const { update } = options as StartViewTransitionOptions;
+      const done = new Promise<void>((resolve) => {
+        runUpdate = async () => {
+          await update?.();
+          resolve();
+        };
+      });
+      return {
+        updateCallbackDone: done,
+        ready: done,
+        finished: done,
+        skipTransition: () => {},
+      } as ViewTransition;
+    });
+    render(<Router routes={createRoutes()} viewTransition />);
+
+    act(() => {
+      // The navigate event makes the navigation pending, which re-renders
+      const { proceed } =
+        mockNavigation.__simulateNavigationWithEvent("/about");
+      proceed();
+    });
+    expect(startViewTransition).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("Go")).toBeInTheDocument();
+    expect(screen.queryByText("About")).not.toBeInTheDocument();
+
+    await act(async () => {
+      await runUpdate?.();
+    });
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+
+  it("can be enabled per navigation", async () => {
+    render(<Router routes={createRoutes({ viewTransition: true })} />);
+    await clickAndWaitForUpdate();
+
+    expect(startViewTransition).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+
+  it("can be disabled per navigation", async () => {
+    render(
+      <Router
+        routes={createRoutes({ viewTransition: false })}
+        viewTransition
+      />,
+    );
+    await clickAndWaitForUpdate();
+
+    expect(startViewTransition).not.toHaveBeenCalled();
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+
+  it("exposes back and forward directions for traversals", async () => {
+    render(<Router routes={createRoutes()} viewTransition />);
+    await clickAndWaitForUpdate();
+
+    await act(async () => {
+      mockNavigation.__simulateTraversal(0);
+      await updateDone;
+    });
+    expect(startViewTransition).toHaveBeenLastCalledWith(
+      expect.objectContaining({ types: ["back"] }),
+    );
+    expect(screen.getByText("Go")).toBeInTheDocument();
+
+    await act(async () => {
+      mockNavigation.__simulateTraversal(1);
+      await updateDone;
+    });
+    expect(startViewTransition).toHaveBeenLastCalledWith(
+      expect.objectContaining({ types: ["forward"] }),
+    );
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+
+  it("sets the direction on the root element without view transition types", async () => {
+    vi.stubGlobal("ViewTransition", class {});
+    let directionDuringUpdate: string | null = null;
+    startViewTransition.mockImplementationOnce((update) => {
+      directionDuringUpdate = document.documentElement.getAttribute(
+        "data-view-transition-direction",
+      );
+      updateDone = Promise.resolve((update as ViewTransitionUpdateCallback)());
+      return {
+        updateCallbackDone: updateDone,
+        ready: updateDone,
+        finished: updateDone,
+        skipTransition: () => {},
+      } as ViewTransition;
+    });
+
+    render(<Router routes={createRoutes()} viewTransition />);
+    await clickAndWaitForUpdate();
+
+    expect(startViewTransition).toHaveBeenCalledWith(expect.any(Function));
+    expect(directionDuringUpdate).toBe("push");
+    expect(
+      document.documentElement.hasAttribute("data-view-transition-direction"),
+    ).toBe(false);
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+
+  it("does not start a view transition for state updates", () => {
+    render(<Router routes={createRoutes()} viewTransition />);
+
+    act(() => {
+      navigation.updateCurrentEntry({ state: { count: 1 } });
+    });
+
+    expect(startViewTransition).not.toHaveBeenCalled();
+  });
+
+  it("navigates without a transition when View Transitions are unsupported", async () => {
+    delete (document as Partial<Document>).startViewTransition;
+
+    render(<Router routes={createRoutes()} viewTransition />);
+    await clickAndWaitForUpdate();
+
+    expect(screen.getByText("About")).toBeInTheDocument();
+  });
+});
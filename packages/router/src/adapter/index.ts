@@ -0,0 +1,22 @@
+// FUNSTACK Router adapter interface - @funstack/router/adapter
+// Types and helpers for implementing a custom RouterAdapter
+
+// Route matching, for the routes passed to setupInterception
+export { matchRoutes } from "../core/matchRoutes.js";
+
+export type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+  ViewTransitionDirection,
+} from "../core/RouterAdapter.js";
+
+export type { LoaderCache } from "../core/loaderCache.js";
+
+export type {
+  InternalRouteDefinition,
+  MatchedRoute,
+  NavigateOptions,
+  OnNavigateCallback,
+} from "../types.js";
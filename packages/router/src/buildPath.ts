@@ -0,0 +1,113 @@
+import type { ExtractParams, PathParams } from "./route.js";
+
+type PathRoute = { path: string; children?: readonly unknown[] };
+
+/**
+ * A route, or the chain of nested routes from a top-level route down to
+ * the target route.
+ */
+type RouteChain = PathRoute | readonly [PathRoute, ...PathRoute[]];
+
+/**
+ * Combined path pattern of a route chain.
+ * E.g., [{ path: "/users" }, { path: ":id" }] -> "/users/:id"
+ */
+type RouteChainPath<T> = T extends readonly [
+  infer Head extends PathRoute,
+  ...infer Rest,
+]
+  ? Rest extends readonly []
+    ? Head["path"]
+    : `${Head["path"]}/${RouteChainPath<Rest>}`
+  : T extends PathRoute
+    ? T["path"]
+    : never;
+
+/**
+ * Options for building a path.
+ */
+export type BuildPathOptions = {
+  /** Search params to append, with or without the leading "?" */
+  search?: string | URLSearchParams | Record<string, string>;
+  /** Hash to append, with or without the leading "#" */
+  hash?: string;
+};
+
+/**
+ * Arguments after the routes: params are required only when the path has any.
+ */
+type BuildPathArgs<TPath extends string> = [ExtractParams<TPath>] extends [
+  never,
+]
+  ? [params?: PathParams<TPath>, options?: BuildPathOptions]
+  : [params: PathParams<TPath>, options?: BuildPathOptions];
+
+/**
+ * Builds a URL path from a route definition and its params.
+ *
+ * Pass a single route, or the chain of nested routes from a top-level route
+ * down to the target route to combine their paths. Params are URI-encoded.
+ * Missing or extra params are compile errors.
+ *
+ * @example
+ * ```typescript
+ * const user = route({ path: ":id", component: UserPage });
+ * const users = route({ path: "/users", component: UsersLayout, children: [user] });
+ *
+ * buildPath([users, user], { id: "42" }); // "/users/42"
+ * buildPath([users, user], { id: "42" }, { search: { tab: "posts" }, hash: "top" });
+ * // "/users/42?tab=posts#top"
+ * ```
+ */
+export function buildPath<const TRoutes extends RouteChain>(
+  routes: TRoutes,
+  ...[params, options]: BuildPathArgs<RouteChainPath<TRoutes>>
+): string {
+  const chain: readonly PathRoute[] = isRouteChainList(routes)
+    ? routes
+    : [routes];
+
+  chain.forEach((route, index) => {
+    const parent = chain[index - 1];
+    if (parent && !parent.children?.includes(route)) {
+      throw new Error(
+        `Route "${route.path}" is not a child of route "${parent.path}"`,
+      );
+    }
+  });
+
+  const pattern = chain.map((route) => route.path).join("/");
+  const values = (params ?? {}) as Record<string, string>;
+  const segments = pattern
+    .split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment.replace(/:(.+)$/, (_, name: string) => {
+        const value = values[name];
+        if (value === undefined) {
+          throw new Error(`Missing param "${name}" for path "${pattern}"`);
+        }
+        return encodeURIComponent(value);
+      }),
+    );
+
+  let path = "/" + segments.join("/");
+
+  if (options?.search !== undefined) {
+    const search = new URLSearchParams(options.search).toString();
+    if (search) {
+      path += `?${search}`;
+    }
+  }
+  if (options?.hash) {
+    path += options.hash.startsWith("#") ? options.hash : `#${options.hash}`;
+  }
+
+  return path;
+}
+
+function isRouteChainList(
+  routes: RouteChain,
+): routes is readonly [PathRoute, ...PathRoute[]] {
+  return Array.isArray(routes);
+}
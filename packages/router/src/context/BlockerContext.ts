@@ -7,6 +7,10 @@ export type BlockerRegistry = {
   register: (id: BlockerId, shouldBlock: () => boolean) => () => void;
   /** Check all blockers - returns true if any blocks */
   checkAll: () => boolean;
+  /** Whether any blocker is registered */
+  hasBlockers: () => boolean;
+  /** Subscribe to blockers being registered or unregistered */
+  subscribe: (listener: () => void) => () => void;
 };
 
 export type BlockerContextValue = {
@@ -19,12 +23,20 @@ export type BlockerContextValue = {
  */
 export function createBlockerRegistry(): BlockerRegistry {
   const blockers = new Map<BlockerId, () => boolean>();
+  const listeners = new Set<() => void>();
+  const notify = () => {
+    for (const listener of listeners) {
+      listener();
+    }
+  };
 
   return {
     register(id: BlockerId, shouldBlock: () => boolean): () => void {
       blockers.set(id, shouldBlock);
+      notify();
       return () => {
         blockers.delete(id);
+        notify();
       };
     },
 
@@ -36,6 +48,17 @@ export function createBlockerRegistry(): BlockerRegistry {
       }
       return false;
     },
+
+    hasBlockers(): boolean {
+      return blockers.size > 0;
+    },
+
+    subscribe(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
   };
 }
 
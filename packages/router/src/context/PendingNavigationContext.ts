@@ -0,0 +1,14 @@
+import { createContext } from "react";
+import type { PendingNavigation } from "../core/RouterAdapter.js";
+
+export type PendingNavigationContextValue = {
+  /** The navigation in progress, or null when idle */
+  pendingNavigation: PendingNavigation | null;
+};
+
+/**
+ * Kept separate from RouterContext so that starting or finishing
+ * a navigation only re-renders components that read it.
+ */
+export const PendingNavigationContext =
+  createContext<PendingNavigationContextValue | null>(null);
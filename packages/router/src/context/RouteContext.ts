@@ -5,6 +5,10 @@ export type RouteContextValue = {
   params: Record<string, string>;
   /** The matched path pattern */
   matchedPath: string;
+  /** The absolute pathname matched by this route and its ancestors */
+  absolutePath: string;
+  /** The absolute pathname matched by the deepest matched route */
+  leafAbsolutePath: string;
   /** Child route element to render via Outlet */
   outlet: ReactNode;
 };
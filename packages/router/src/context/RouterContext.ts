@@ -1,5 +1,5 @@
 import { createContext } from "react";
-import type { NavigateOptions } from "../types.js";
+import type { MatchedRoute, NavigateOptions } from "../types.js";
 import type { LocationEntry } from "../core/RouterAdapter.js";
 
 export type RouterContextValue = {
@@ -13,6 +13,23 @@ export type RouterContextValue = {
   navigateAsync: (to: string, options?: NavigateOptions) => Promise<void>;
   /** Update current entry's state without navigation */
   updateCurrentEntryState: (state: unknown) => void;
+  /**
+   * Clear cached loader results of the matched routes selected by the predicate
+   * and run them again. Resolves when the new results have settled.
+   */
+  revalidateLoaders: (
+    shouldRevalidate: (match: MatchedRoute, index: number) => boolean,
+  ) => Promise<void>;
+  /** Run loaders of the routes matching a URL ahead of navigating to it */
+  prefetch: (to: string) => void;
+  /** Whether Link navigates on plain clicks itself (see `RouterAdapter`) */
+  navigateOnLinkClick: boolean;
+  /** Match a pathname against the Router's routes */
+  match: (pathname: string) => MatchedRoute[] | null;
+  /** Incremented whenever loaders are revalidated */
+  loaderRevision: number;
+  /** Whether any revalidated loaders are still pending */
+  isRevalidating: boolean;
 };
 
 export const RouterContext = createContext<RouterContextValue | null>(null);
@@ -0,0 +1,482 @@
+import type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+} from "./RouterAdapter.js";
+import type {
+  InternalRouteDefinition,
+  MatchedRoute,
+  NavigateOptions,
+  OnNavigateCallback,
+} from "../types.js";
+import { matchRoutes } from "./matchRoutes.js";
+import { keepsScrollPosition, waitForNextFrame } from "./scroll.js";
+import { EmulatedNavigateEvent, isHashChange } from "./navigateEvent.js";
+import { NavigationTracker } from "./navigationTracker.js";
+import { getNavigatingLink } from "./linkClick.js";
+import { type LoaderCache, clearLoaderCacheForEntry } from "./loaderCache.js";
+
+/**
+ * Entry data stored in `history.state`, emulating the key, index and state
+ * of a NavigationHistoryEntry.
+ */
+type HistoryEntryState = {
+  __funstackRouter: true;
+  key: string;
+  index: number;
+  state: unknown;
+};
+
+/**
+ * Adapter that emulates the Navigation API with the History API, for browsers
+ * without the Navigation API (`fallback="history"`).
+ *
+ * Navigations go through `pushState`/`replaceState`, link clicks are
+ * intercepted at the document, and back/forward buttons are handled via
+ * `popstate`. Entry keys, per-entry state, `info`, blockers, `onNavigate`,
+ * loader aborts and scroll restoration behave like with the Navigation API.
+ * Blocked back/forward navigations are undone by traversing back, since
+ * `popstate` cannot be canceled.
+ */
+export class HistoryAdapter implements RouterAdapter {
+  readonly loaderCache: LoaderCache;
+  #navigations: NavigationTracker;
+  // Cache the snapshot to ensure referential stability for useSyncExternalStore
+  #cachedSnapshot: LocationEntry | null = null;
+  // Ephemeral info from the current navigation (not persisted in history)
+  #currentNavigationInfo: unknown = undefined;
+  #listeners = new Set<(change?: LocationChange) => void>();
+  // Keys of this document's entries by history index, to emulate dispose events
+  #entryKeys: string[] = [];
+  // Key and index of the entry currently rendered
+  #currentKey = "";
+  #currentIndex = 0;
+  // Scroll positions of entries navigated away from, restored on traversal
+  #scrollPositions = new Map<string, { x: number; y: number }>();
+  #routes: InternalRouteDefinition[] = [];
+  #onNavigate: OnNavigateCallback | undefined = undefined;
+  #checkBlockers: (() => boolean) | undefined = undefined;
+  // Set while undoing a blocked traversal, whose popstate is ignored
+  #undoingTraversal = false;
+
+  /**
+   * @param loaderCache - Cache for loader results (default: a new `Map`)
+   */
+  constructor(loaderCache: LoaderCache = new Map()) {
+    this.loaderCache = loaderCache;
+    this.#navigations = new NavigationTracker(loaderCache);
+  }
+
+  getSnapshot(): LocationEntry | null {
+    if (typeof window === "undefined") {
+      return null;
+    }
+    if (!this.#cachedSnapshot) {
+      const entry = this.#getCurrentEntry();
+      this.#cachedSnapshot = {
+        url: new URL(window.location.href),
+        key: entry.key,
+        state: entry.state,
+        info: this.#currentNavigationInfo,
+      };
+    }
+    return this.#cachedSnapshot;
+  }
+
+  getServerSnapshot(): LocationEntry | null {
+    return null;
+  }
+
+  subscribe(callback: (change?: LocationChange) => void): () => void {
+    this.#listeners.add(callback);
+    return () => {
+      this.#listeners.delete(callback);
+    };
+  }
+
+  getPendingNavigation(): PendingNavigation | null {
+    return this.#navigations.getPendingNavigation();
+  }
+
+  subscribePendingNavigation(callback: () => void): () => void {
+    return this.#navigations.subscribePendingNavigation(callback);
+  }
+
+  navigate(to: string, options?: NavigateOptions): void {
+    // Like navigation.navigate(), failures are reported through navigateAsync only
+    this.#navigate(to, options).catch(() => {});
+  }
+
+  async navigateAsync(to: string, options?: NavigateOptions): Promise<void> {
+    await this.#navigate(to, options);
+  }
+
+  setupInterception(
+    routes: InternalRouteDefinition[],
+    onNavigate?: OnNavigateCallback,
+    checkBlockers?: () => boolean,
+  ): (() => void) | undefined {
+    this.#routes = routes;
+    this.#onNavigate = onNavigate;
+    this.#checkBlockers = checkBlockers;
+
+    // Scroll positions are restored once the destination has rendered
+    const { scrollRestoration } = history;
+    history.scrollRestoration = "manual";
+
+    const controller = new AbortController();
+    document.addEventListener("click", this.#handleClick, {
+      signal: controller.signal,
+    });
+    window.addEventListener("popstate", this.#handlePopState, {
+      signal: controller.signal,
+    });
+    return () => {
+      controller.abort();
+      history.scrollRestoration = scrollRestoration;
+    };
+  }
+
+  getIdleAbortSignal(): AbortSignal {
+    return this.#navigations.getIdleAbortSignal();
+  }
+
+  updateCurrentEntryState(state: unknown): void {
+    const entry = this.#getCurrentEntry();
+    history.replaceState({ ...entry, state }, "", window.location.href);
+    this.#cachedSnapshot = null;
+    this.#notify();
+  }
+
+  /**
+   * Get the entry data of the current history entry, assigning a key to
+   * entries created outside the adapter (e.g. the initial page load).
+   */
+  #getCurrentEntry(): HistoryEntryState {
+    const current: unknown = history.state;
+    let entry: HistoryEntryState;
+    if (isHistoryEntryState(current)) {
+      entry = current;
+    } else {
+      entry = createEntryState(0, undefined);
+      history.replaceState(entry, "", window.location.href);
+    }
+    this.#entryKeys[entry.index] ??= entry.key;
+    this.#currentKey = entry.key;
+    this.#currentIndex = entry.index;
+    return entry;
+  }
+
+  #notify(change?: LocationChange): void {
+    for (const listener of this.#listeners) {
+      listener(change);
+    }
+  }
+
+  /**
+   * Intercept clicks on same-origin links, like the Navigation API's
+   * navigate event does.
+   */
+  #handleClick = (event: MouseEvent): void => {
+    const anchor = getNavigatingLink(event);
+    if (!anchor) {
+      return;
+    }
+    const url = new URL(anchor.href);
+    // The browser handles other origins and in-page anchors
+    if (
+      url.origin !== window.location.origin ||
+      isHashChange(url, new URL(window.location.href))
+    ) {
+      return;
+    }
+    event.preventDefault();
+    this.#navigate(url.href, undefined, true).catch(() => {});
+  };
+
+  /**
+   * Handle back/forward navigations and fragment navigations by the browser.
+   */
+  #handlePopState = (event: PopStateEvent): void => {
+    if (this.#undoingTraversal) {
+      this.#undoingTraversal = false;
+      return;
+    }
+
+    const previousIndex = this.#currentIndex;
+    const url = new URL(window.location.href);
+
+    if (!isHistoryEntryState(event.state)) {
+      // A new entry created by the browser, e.g. for an in-page anchor
+      const entry = createEntryState(previousIndex + 1, undefined);
+      history.replaceState(entry, "", url.href);
+      this.#saveScrollPosition();
+      this.#addEntry(entry, "push");
+      this.#enter(undefined, { viewTransition: undefined, direction: "push" });
+      return;
+    }
+
+    const entry = event.state;
+    const delta = entry.index - previousIndex;
+    const matched = matchRoutes(this.#routes, url.pathname);
+    if (
+      !this.#dispatchNavigate(url, "traverse", true, entry, undefined, matched)
+    ) {
+      // popstate cannot be canceled, so traverse back to the previous entry
+      if (delta !== 0) {
+        this.#undoingTraversal = true;
+        history.go(-delta);
+      }
+      return;
+    }
+
+    this.#saveScrollPosition();
+    this.#entryKeys[entry.index] = entry.key;
+    this.#currentKey = entry.key;
+    this.#currentIndex = entry.index;
+    const signal = matched
+      ? this.#navigations.start(url, "traverse", matched)
+      : null;
+    this.#enter(undefined, {
+      viewTransition: undefined,
+      direction: delta < 0 ? "back" : "forward",
+    });
+    if (matched && signal) {
+      this.#finishNavigation(matched, entry.key, url, signal, () =>
+        this.#restoreScrollPosition(entry.key, url),
+      ).catch(() => {});
+    }
+  };
+
+  async #navigate(
+    to: string,
+    options?: NavigateOptions,
+    userInitiated = false,
+  ): Promise<void> {
+    const url = new URL(to, window.location.href);
+    const navigationType: NavigationType = options?.replace
+      ? "replace"
+      : "push";
+    const canIntercept = url.origin === window.location.origin;
+    const matched = canIntercept
+      ? matchRoutes(this.#routes, url.pathname)
+      : null;
+
+    const intercept = this.#dispatchNavigate(
+      url,
+      navigationType,
+      canIntercept,
+      null,
+      options,
+      matched,
+      userInitiated,
+    );
+    if (intercept === false) {
+      throw new DOMException("Navigation was aborted", "AbortError");
+    }
+
+    // Fragment navigations change the entry without running loaders
+    if (canIntercept && isHashChange(url, new URL(window.location.href))) {
+      this.#saveScrollPosition();
+      this.#pushOrReplace(url, navigationType, options);
+      scrollToTarget(url);
+      return;
+    }
+
+    // Let the browser load the document for other origins and unmatched URLs
+    if (intercept === "browser" || !matched) {
+      if (navigationType === "replace") {
+        window.location.replace(url.href);
+      } else {
+        window.location.assign(url.href);
+      }
+      return;
+    }
+
+    const shouldScroll =
+      options?.scroll ??
+      !keepsScrollPosition(this.#routes, matched, window.location.href);
+    this.#saveScrollPosition();
+    const signal = this.#navigations.start(url, navigationType, matched);
+    const key = this.#pushOrReplace(url, navigationType, options);
+    await this.#finishNavigation(
+      matched,
+      key,
+      url,
+      signal,
+      shouldScroll ? () => scrollToTarget(url) : null,
+    );
+  }
+
+  /**
+   * Check blockers and call `onNavigate`, like the Navigation API's navigate event.
+   * Returns false when the navigation is blocked or canceled, "browser" when
+   * `onNavigate` prevented the router from handling it, and true otherwise.
+   */
+  #dispatchNavigate(
+    url: URL,
+    navigationType: NavigationType,
+    canIntercept: boolean,
+    destinationEntry: HistoryEntryState | null,
+    options: NavigateOptions | undefined,
+    matched: MatchedRoute[] | null,
+    userInitiated = false,
+  ): boolean | "browser" {
+    if (this.#checkBlockers?.()) {
+      return false;
+    }
+    if (!this.#onNavigate) {
+      return true;
+    }
+    const event = new EmulatedNavigateEvent({
+      url,
+      navigationType,
+      canIntercept,
+      userInitiated,
+      hashChange:
+        canIntercept && isHashChange(url, new URL(window.location.href)),
+      destinationEntry,
+      state: options?.state,
+      info: options?.info,
+    });
+    this.#onNavigate(event, canIntercept ? matched : []);
+    if (!event.defaultPrevented) {
+      return true;
+    }
+    // Traversals have already happened, so they can only be undone
+    return navigationType === "traverse" ? false : "browser";
+  }
+
+  /**
+   * Wait for the loaders of the entry navigated to, then scroll.
+   * Rejects when the navigation was aborted by another one, or a loader rejects.
+   */
+  #finishNavigation(
+    matched: MatchedRoute[],
+    key: string,
+    url: URL,
+    signal: AbortSignal,
+    scroll: (() => void) | null,
+  ): Promise<void> {
+    return this.#navigations.finish(
+      matched,
+      key,
+      url,
+      signal,
+      scroll
+        ? async () => {
+            // Give React a chance to render the loaded data
+            await waitForNextFrame();
+            if (!signal.aborted) {
+              scroll();
+            }
+          }
+        : undefined,
+    );
+  }
+
+  /**
+   * Create a history entry for a push or replace navigation and render it.
+   * Returns the key of the new entry.
+   */
+  #pushOrReplace(
+    url: URL,
+    navigationType: NavigationType,
+    options: NavigateOptions | undefined,
+  ): string {
+    const current = this.#getCurrentEntry();
+    const entry = createEntryState(
+      navigationType === "push" ? current.index + 1 : current.index,
+      options?.state,
+    );
+    if (navigationType === "push") {
+      history.pushState(entry, "", url.href);
+    } else {
+      history.replaceState(entry, "", url.href);
+    }
+    this.#addEntry(entry, navigationType);
+    this.#enter(options?.info, {
+      viewTransition: options?.viewTransition,
+      direction: "push",
+    });
+    return entry.key;
+  }
+
+  /**
+   * Record a new entry. Like the Navigation API, this disposes the entry it
+   * replaces, or the entries after the current one, and clears their cached
+   * loader results.
+   */
+  #addEntry(entry: HistoryEntryState, navigationType: NavigationType): void {
+    const disposedKeys =
+      navigationType === "replace"
+        ? this.#entryKeys.slice(entry.index, entry.index + 1)
+        : this.#entryKeys.slice(entry.index);
+    this.#entryKeys.length = entry.index;
+    this.#entryKeys[entry.index] = entry.key;
+    this.#currentKey = entry.key;
+    this.#currentIndex = entry.index;
+    for (const key of disposedKeys) {
+      clearLoaderCacheForEntry(key, this.loaderCache);
+      this.#scrollPositions.delete(key);
+    }
+  }
+
+  /**
+   * Render the current history entry.
+   */
+  #enter(info: unknown, change: LocationChange): void {
+    this.#currentNavigationInfo = info;
+    this.#cachedSnapshot = null;
+    this.#notify(change);
+  }
+
+  #saveScrollPosition(): void {
+    this.#scrollPositions.set(this.#currentKey, {
+      x: window.scrollX,
+      y: window.scrollY,
+    });
+  }
+
+  #restoreScrollPosition(key: string, url: URL): void {
+    const position = this.#scrollPositions.get(key);
+    if (position) {
+      window.scrollTo(position.x, position.y);
+    } else {
+      scrollToTarget(url);
+    }
+  }
+}
+
+let keyCounter = 0;
+
+/**
+ * Create entry data with a new unique key.
+ */
+function createEntryState(index: number, state: unknown): HistoryEntryState {
+  keyCounter += 1;
+  const key = `${Date.now().toString(36)}-${keyCounter.toString(36)}-${Math.random().toString(36).slice(2)}`;
+  return { __funstackRouter: true, key, index, state };
+}
+
+function isHistoryEntryState(value: unknown): value is HistoryEntryState {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Partial<HistoryEntryState>).__funstackRouter === true
+  );
+}
+
+/**
+ * Scroll to the element targeted by the URL's fragment, or to the top.
+ */
+function scrollToTarget(url: URL): void {
+  const id = decodeURIComponent(url.hash.slice(1));
+  const target = id ? document.getElementById(id) : null;
+  if (target) {
+    target.scrollIntoView();
+  } else {
+    window.scrollTo(0, 0);
+  }
+}
@@ -0,0 +1,342 @@
+import type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+} from "./RouterAdapter.js";
+import type {
+  InternalRouteDefinition,
+  MatchedRoute,
+  NavigateOptions,
+  OnNavigateCallback,
+} from "../types.js";
+import { matchRoutes } from "./matchRoutes.js";
+import {
+  type DestinationEntry,
+  EmulatedNavigateEvent,
+  isHashChange,
+} from "./navigateEvent.js";
+import { NavigationTracker } from "./navigationTracker.js";
+import { type LoaderCache, clearLoaderCacheForEntry } from "./loaderCache.js";
+
+/**
+ * An initial history entry of a MemoryAdapter: its URL, or its URL and state.
+ * URLs are resolved against `http://localhost/`.
+ */
+export type MemoryEntryInit = string | { url: string; state?: unknown };
+
+export type MemoryAdapterOptions = {
+  /**
+   * History entries to start with (default: `["/"]`).
+   */
+  initialEntries?: MemoryEntryInit[];
+  /**
+   * Index of the current entry in `initialEntries` (default: the last entry).
+   */
+  initialIndex?: number;
+  /**
+   * Cache for loader results (default: a new `Map`).
+   */
+  loaderCache?: LoaderCache;
+};
+
+type MemoryEntry = {
+  key: string;
+  url: URL;
+  state: unknown;
+};
+
+const DEFAULT_BASE_URL = "http://localhost/";
+
+/**
+ * Adapter that keeps its history in memory, for rendering routes in tests,
+ * Storybook or hosts without a browser location. Pass it to the Router's
+ * `adapter` prop.
+ *
+ * Navigations and traversals (`back`, `forward`, `traverseTo`) behave like
+ * with the Navigation API: entries have keys and state, navigations carry
+ * `info`, blockers and `onNavigate` can cancel them, loaders of a superseded
+ * navigation are aborted, and cached loader results of disposed entries are
+ * cleared. Nothing outside the adapter is read or changed.
+ */
+export class MemoryAdapter implements RouterAdapter {
+  readonly loaderCache: LoaderCache;
+  // Clicks on links would navigate the document instead
+  readonly navigateOnLinkClick = true;
+  #navigations: NavigationTracker;
+  // Cache the snapshot to ensure referential stability for useSyncExternalStore
+  #cachedSnapshot: LocationEntry | null = null;
+  // Ephemeral info from the current navigation (not kept with the entry)
+  #currentNavigationInfo: unknown = undefined;
+  #listeners = new Set<(change?: LocationChange) => void>();
+  #entries: MemoryEntry[];
+  #index: number;
+  #routes: InternalRouteDefinition[] = [];
+  #onNavigate: OnNavigateCallback | undefined = undefined;
+  #checkBlockers: (() => boolean) | undefined = undefined;
+
+  constructor(options: MemoryAdapterOptions = {}) {
+    const { initialEntries = ["/"], loaderCache = new Map() } = options;
+    if (initialEntries.length === 0) {
+      throw new RangeError("initialEntries must not be empty");
+    }
+    const initialIndex = options.initialIndex ?? initialEntries.length - 1;
+    if (
+      !Number.isInteger(initialIndex) ||
+      initialIndex < 0 ||
+      initialIndex >= initialEntries.length
+    ) {
+      throw new RangeError(
+        `initialIndex ${initialIndex} is out of range for ${initialEntries.length} entries`,
+      );
+    }
+    this.loaderCache = loaderCache;
+    this.#navigations = new NavigationTracker(loaderCache);
+    this.#entries = initialEntries.map((init) =>
+      typeof init === "string"
+        ? createEntry(new URL(init, DEFAULT_BASE_URL), undefined)
+        : createEntry(new URL(init.url, DEFAULT_BASE_URL), init.state),
+    );
+    this.#index = initialIndex;
+  }
+
+  /**
+   * Whether there is an entry before the current one.
+   */
+  get canGoBack(): boolean {
+    return this.#index > 0;
+  }
+
+  /**
+   * Whether there is an entry after the current one.
+   */
+  get canGoForward(): boolean {
+    return this.#index < this.#entries.length - 1;
+  }
+
+  getSnapshot(): LocationEntry {
+    if (!this.#cachedSnapshot) {
+      const entry = this.#entries[this.#index]!;
+      this.#cachedSnapshot = {
+        url: entry.url,
+        key: entry.key,
+        state: entry.state,
+        info: this.#currentNavigationInfo,
+      };
+    }
+    return this.#cachedSnapshot;
+  }
+
+  getServerSnapshot(): LocationEntry {
+    // The location does not depend on the browser, so it renders on the server too
+    return this.getSnapshot();
+  }
+
+  subscribe(callback: (change?: LocationChange) => void): () => void {
+    this.#listeners.add(callback);
+    return () => {
+      this.#listeners.delete(callback);
+    };
+  }
+
+  getPendingNavigation(): PendingNavigation | null {
+    return this.#navigations.getPendingNavigation();
+  }
+
+  subscribePendingNavigation(callback: () => void): () => void {
+    return this.#navigations.subscribePendingNavigation(callback);
+  }
+
+  navigate(to: string, options?: NavigateOptions): void {
+    // Like navigation.navigate(), failures are reported through navigateAsync only
+    this.#navigate(to, options).catch(() => {});
+  }
+
+  async navigateAsync(to: string, options?: NavigateOptions): Promise<void> {
+    await this.#navigate(to, options);
+  }
+
+  /**
+   * Go to the previous entry, like `navigation.back()`.
+   * Rejects when there is no previous entry or the traversal is canceled.
+   */
+  back(): Promise<void> {
+    return this.#traverse(this.#index - 1);
+  }
+
+  /**
+   * Go to the next entry, like `navigation.forward()`.
+   * Rejects when there is no next entry or the traversal is canceled.
+   */
+  forward(): Promise<void> {
+    return this.#traverse(this.#index + 1);
+  }
+
+  /**
+   * Go to the entry with the given key, like `navigation.traverseTo()`.
+   * Rejects when no entry has the key or the traversal is canceled.
+   */
+  traverseTo(key: string): Promise<void> {
+    return this.#traverse(this.#entries.findIndex((e) => e.key === key));
+  }
+
+  setupInterception(
+    routes: InternalRouteDefinition[],
+    onNavigate?: OnNavigateCallback,
+    checkBlockers?: () => boolean,
+  ): (() => void) | undefined {
+    this.#routes = routes;
+    this.#onNavigate = onNavigate;
+    this.#checkBlockers = checkBlockers;
+    return () => {
+      this.#routes = [];
+      this.#onNavigate = undefined;
+      this.#checkBlockers = undefined;
+    };
+  }
+
+  getIdleAbortSignal(): AbortSignal {
+    return this.#navigations.getIdleAbortSignal();
+  }
+
+  updateCurrentEntryState(state: unknown): void {
+    const entry = this.#entries[this.#index]!;
+    this.#entries[this.#index] = { ...entry, state };
+    this.#cachedSnapshot = null;
+    this.#notify();
+  }
+
+  #notify(change?: LocationChange): void {
+    for (const listener of this.#listeners) {
+      listener(change);
+    }
+  }
+
+  async #navigate(to: string, options?: NavigateOptions): Promise<void> {
+    const current = this.#entries[this.#index]!;
+    const url = new URL(to, current.url);
+    const navigationType: NavigationType = options?.replace
+      ? "replace"
+      : "push";
+    const matched = matchRoutes(this.#routes, url.pathname);
+
+    if (!this.#dispatchNavigate(url, navigationType, null, options, matched)) {
+      throw new DOMException("Navigation was aborted", "AbortError");
+    }
+
+    const entry = createEntry(url, options?.state);
+    // Like the Navigation API, this disposes the entry being replaced,
+    // or the entries after the current one
+    const disposed =
+      navigationType === "replace"
+        ? this.#entries.splice(this.#index, 1, entry)
+        : this.#entries.splice(this.#index + 1, Infinity, entry);
+    if (navigationType === "push") {
+      this.#index += 1;
+    }
+    for (const { key } of disposed) {
+      clearLoaderCacheForEntry(key, this.loaderCache);
+    }
+
+    const signal = matched
+      ? this.#navigations.start(url, navigationType, matched)
+      : null;
+    this.#enter(options?.info, {
+      viewTransition: options?.viewTransition,
+      direction: "push",
+    });
+    if (matched && signal) {
+      await this.#navigations.finish(matched, entry.key, url, signal);
+    }
+  }
+
+  async #traverse(index: number): Promise<void> {
+    const destination = this.#entries[index];
+    if (!destination) {
+      throw new DOMException("No entry to traverse to", "InvalidStateError");
+    }
+    if (index === this.#index) {
+      return;
+    }
+    const matched = matchRoutes(this.#routes, destination.url.pathname);
+    const destinationEntry = { ...destination, index };
+    if (
+      !this.#dispatchNavigate(
+        destination.url,
+        "traverse",
+        destinationEntry,
+        undefined,
+        matched,
+      )
+    ) {
+      throw new DOMException("Navigation was aborted", "AbortError");
+    }
+
+    const direction = index < this.#index ? "back" : "forward";
+    this.#index = index;
+    const signal = matched
+      ? this.#navigations.start(destination.url, "traverse", matched)
+      : null;
+    this.#enter(undefined, { viewTransition: undefined, direction });
+    if (matched && signal) {
+      await this.#navigations.finish(
+        matched,
+        destination.key,
+        destination.url,
+        signal,
+      );
+    }
+  }
+
+  /**
+   * Check blockers and call `onNavigate`, like the Navigation API's navigate event.
+   * Returns false when the navigation is blocked or canceled.
+   */
+  #dispatchNavigate(
+    url: URL,
+    navigationType: NavigationType,
+    destinationEntry: DestinationEntry | null,
+    options: NavigateOptions | undefined,
+    matched: MatchedRoute[] | null,
+  ): boolean {
+    if (this.#checkBlockers?.()) {
+      return false;
+    }
+    if (!this.#onNavigate) {
+      return true;
+    }
+    const current = this.#entries[this.#index]!;
+    const event = new EmulatedNavigateEvent({
+      url,
+      navigationType,
+      canIntercept: true,
+      userInitiated: false,
+      hashChange: isHashChange(url, current.url),
+      destinationEntry,
+      state: options?.state,
+      info: options?.info,
+    });
+    this.#onNavigate(event, matched);
+    // There is no document to load instead, so preventing default cancels
+    return !event.defaultPrevented;
+  }
+
+  /**
+   * Render the current entry.
+   */
+  #enter(info: unknown, change: LocationChange): void {
+    this.#currentNavigationInfo = info;
+    this.#cachedSnapshot = null;
+    this.#notify(change);
+  }
+}
+
+let keyCounter = 0;
+
+/**
+ * Create an entry with a new unique key.
+ */
+function createEntry(url: URL, state: unknown): MemoryEntry {
+  keyCounter += 1;
+  return { key: `memory-${keyCounter.toString(36)}`, url, state };
+}
@@ -1,41 +1,52 @@
-import type { RouterAdapter, LocationEntry } from "./RouterAdapter.js";
+import type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+} from "./RouterAdapter.js";
 import type {
   InternalRouteDefinition,
   NavigateOptions,
   OnNavigateCallback,
 } from "../types.js";
 import { matchRoutes } from "./matchRoutes.js";
+import { keepsScrollPosition, waitForNextFrame } from "./scroll.js";
 import {
+  type LoaderCache,
   executeLoaders,
   createLoaderRequest,
   clearLoaderCacheForEntry,
 } from "./loaderCache.js";
 
-/**
- * Fallback AbortController for data loading initialized outside of a navigation event.
- * Aborted when the next navigation occurs.
- *
- * To save resources, this controller is created only when needed.
- */
-let idleController: AbortController | null = null;
-
-/**
- * Reset navigation state. Used for testing.
- */
-export function resetNavigationState(): void {
-  idleController?.abort();
-  idleController = null;
-}
-
 /**
  * Adapter that uses the Navigation API for full SPA functionality.
  */
 export class NavigationAPIAdapter implements RouterAdapter {
+  readonly loaderCache: LoaderCache;
+  /**
+   * Fallback AbortController for data loading initialized outside of a navigation event.
+   * Aborted when the next navigation occurs.
+   *
+   * To save resources, this controller is created only when needed.
+   */
+  #idleController: AbortController | null = null;
   // Cache the snapshot to ensure referential stability for useSyncExternalStore
   #cachedSnapshot: LocationEntry | null = null;
   #cachedEntryId: string | null = null;
   // Ephemeral info from the current navigation event (not persisted in history)
   #currentNavigationInfo: unknown = undefined;
+  // Intercepted navigation that has not finished yet
+  #pendingNavigation: PendingNavigation | null = null;
+  #pendingNavigationListeners = new Set<() => void>();
+  // Options of the programmatic navigation being performed
+  #navigateOptions: NavigateOptions | undefined = undefined;
+
+  /**
+   * @param loaderCache - Cache for loader results (default: a new `Map`)
+   */
+  constructor(loaderCache: LoaderCache = new Map()) {
+    this.loaderCache = loaderCache;
+  }
 
   getSnapshot(): LocationEntry | null {
     const entry = navigation.currentEntry;
@@ -63,11 +74,23 @@ export class NavigationAPIAdapter implements RouterAdapter {
     return null;
   }
 
-  subscribe(callback: () => void): () => void {
+  subscribe(callback: (change?: LocationChange) => void): () => void {
     const controller = new AbortController();
-    navigation.addEventListener("currententrychange", callback, {
-      signal: controller.signal,
-    });
+    navigation.addEventListener(
+      "currententrychange",
+      (event) => {
+        // navigationType is null for updateCurrentEntry()
+        if (!event.navigationType) {
+          callback();
+          return;
+        }
+        callback({
+          viewTransition: this.#navigateOptions?.viewTransition,
+          direction: getDirection(event),
+        });
+      },
+      { signal: controller.signal },
+    );
 
     // Subscribe to dispose events on all existing entries
     this.#subscribeToDisposeEvents(controller.signal);
@@ -104,7 +127,7 @@ export class NavigationAPIAdapter implements RouterAdapter {
       entry.addEventListener(
         "dispose",
         () => {
-          clearLoaderCacheForEntry(entryId);
+          clearLoaderCacheForEntry(entryId, this.loaderCache);
           this.#subscribedEntryIds.delete(entryId);
         },
         { signal },
@@ -112,23 +135,51 @@ export class NavigationAPIAdapter implements RouterAdapter {
     }
   }
 
+  getPendingNavigation(): PendingNavigation | null {
+    return this.#pendingNavigation;
+  }
+
+  subscribePendingNavigation(callback: () => void): () => void {
+    this.#pendingNavigationListeners.add(callback);
+    return () => {
+      this.#pendingNavigationListeners.delete(callback);
+    };
+  }
+
+  #setPendingNavigation(pendingNavigation: PendingNavigation | null): void {
+    if (this.#pendingNavigation === pendingNavigation) {
+      return;
+    }
+    this.#pendingNavigation = pendingNavigation;
+    for (const listener of this.#pendingNavigationListeners) {
+      listener();
+    }
+  }
+
   navigate(to: string, options?: NavigateOptions): void {
-    navigation.navigate(to, {
-      history: options?.replace ? "replace" : "push",
-      state: options?.state,
-      info: options?.info,
-    });
+    this.#startNavigation(to, options);
   }
 
   async navigateAsync(to: string, options?: NavigateOptions): Promise<void> {
-    const result = navigation.navigate(to, {
-      history: options?.replace ? "replace" : "push",
-      state: options?.state,
-      info: options?.info,
-    });
+    const result = this.#startNavigation(to, options);
     await result.finished;
   }
 
+  #startNavigation(to: string, options?: NavigateOptions): NavigationResult {
+    // navigate and currententrychange fire synchronously within navigation.navigate()
+    // for same-document navigations, so the options are visible to their handlers
+    this.#navigateOptions = options;
+    try {
+      return navigation.navigate(to, {
+        history: options?.replace ? "replace" : "push",
+        state: options?.state,
+        info: options?.info,
+      });
+    } finally {
+      this.#navigateOptions = undefined;
+    }
+  }
+
   setupInterception(
     routes: InternalRouteDefinition[],
     onNavigate?: OnNavigateCallback,
@@ -178,12 +229,26 @@ export class NavigationAPIAdapter implements RouterAdapter {
       // Route match, so intercept
 
       // Abort initial load's loaders if this is the first navigation
-      if (idleController) {
-        idleController.abort();
-        idleController = null;
+      if (this.#idleController) {
+        this.#idleController.abort();
+        this.#idleController = null;
       }
 
+      // Pending until navigatesuccess or navigateerror
+      this.#setPendingNavigation({
+        url,
+        navigationType: event.navigationType,
+        matchedRoutes: matched,
+      });
+
+      const shouldScroll =
+        this.#navigateOptions?.scroll ??
+        !keepsScrollPosition(routes, matched, navigation.currentEntry?.url);
+
       event.intercept({
+        // The browser would scroll as soon as the handler settles, before the
+        // loaded data is rendered. Scroll manually once it has been rendered instead.
+        scroll: "manual",
         handler: async () => {
           const request = createLoaderRequest(url);
 
@@ -202,26 +267,47 @@ export class NavigationAPIAdapter implements RouterAdapter {
             currentEntry.id,
             request,
             event.signal,
+            this.loaderCache,
           );
 
           // Delay navigation until async loaders complete
           await Promise.all(results.map((r) => r.data));
+
+          if (shouldScroll) {
+            // Give React a chance to render the loaded data
+            await waitForNextFrame();
+            if (!event.signal.aborted) {
+              // Scrolls to the #hash target or the top for new entries,
+              // and restores the previous position for traversals
+              event.scroll();
+            }
+          }
         },
       });
     };
 
+    const handleNavigationEnd = () => {
+      this.#setPendingNavigation(null);
+    };
+
     const controller = new AbortController();
     navigation.addEventListener("navigate", handleNavigate, {
       signal: controller.signal,
     });
+    navigation.addEventListener("navigatesuccess", handleNavigationEnd, {
+      signal: controller.signal,
+    });
+    navigation.addEventListener("navigateerror", handleNavigationEnd, {
+      signal: controller.signal,
+    });
     return () => {
       controller.abort();
     };
   }
 
   getIdleAbortSignal(): AbortSignal {
-    idleController ??= new AbortController();
-    return idleController.signal;
+    this.#idleController ??= new AbortController();
+    return this.#idleController.signal;
   }
 
   updateCurrentEntryState(state: unknown): void {
@@ -231,3 +317,16 @@ export class NavigationAPIAdapter implements RouterAdapter {
     // Note: updateCurrentEntry fires currententrychange, so subscribers are notified automatically
   }
 }
+
+/**
+ * Determine the direction of a navigation from its currententrychange event.
+ */
+function getDirection(
+  event: NavigationCurrentEntryChangeEvent,
+): LocationChange["direction"] {
+  if (event.navigationType !== "traverse") {
+    return "push";
+  }
+  const currentIndex = navigation.currentEntry?.index ?? -1;
+  return currentIndex < event.from.index ? "back" : "forward";
+}
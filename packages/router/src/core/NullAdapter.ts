@@ -1,17 +1,31 @@
-import type { RouterAdapter, LocationEntry } from "./RouterAdapter.js";
+import type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+} from "./RouterAdapter.js";
 import type {
   InternalRouteDefinition,
   NavigateOptions,
   OnNavigateCallback,
 } from "../types.js";
+import type { LoaderCache } from "./loaderCache.js";
 
 /**
  * Null adapter for when Navigation API is unavailable and no fallback is configured.
  * All methods are no-ops that return safe default values.
  */
 export class NullAdapter implements RouterAdapter {
+  readonly loaderCache: LoaderCache;
   #idleController: AbortController | null = null;
 
+  /**
+   * @param loaderCache - Cache for loader results (default: a new `Map`)
+   */
+  constructor(loaderCache: LoaderCache = new Map()) {
+    this.loaderCache = loaderCache;
+  }
+
   getSnapshot(): LocationEntry | null {
     return null;
   }
@@ -20,7 +34,15 @@ export class NullAdapter implements RouterAdapter {
     return null;
   }
 
-  subscribe(_callback: () => void): () => void {
+  subscribe(_callback: (change?: LocationChange) => void): () => void {
+    return () => {};
+  }
+
+  getPendingNavigation(): PendingNavigation | null {
+    return null;
+  }
+
+  subscribePendingNavigation(_callback: () => void): () => void {
     return () => {};
   }
 
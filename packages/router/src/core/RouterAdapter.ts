@@ -1,8 +1,10 @@
 import type {
   InternalRouteDefinition,
+  MatchedRoute,
   NavigateOptions,
   OnNavigateCallback,
 } from "../types.js";
+import type { LoaderCache } from "./loaderCache.js";
 
 /**
  * Represents the current location state.
@@ -19,6 +21,35 @@ export type LocationEntry = {
   info: unknown;
 };
 
+/**
+ * Direction of a navigation, exposed as a view transition type.
+ * Push and replace navigations (and reloads) are "push".
+ */
+export type ViewTransitionDirection = "push" | "back" | "forward";
+
+/**
+ * Describes a location change caused by a navigation.
+ */
+export type LocationChange = {
+  /** Whether to use a view transition, or undefined to use the Router's default */
+  viewTransition: boolean | undefined;
+  /** Direction of the navigation */
+  direction: ViewTransitionDirection;
+};
+
+/**
+ * A navigation that has started but not finished yet
+ * (e.g. waiting for loaders of the destination).
+ */
+export type PendingNavigation = {
+  /** The destination URL */
+  url: URL;
+  /** How the navigation was triggered */
+  navigationType: NavigationType;
+  /** Routes matched by the destination URL */
+  matchedRoutes: MatchedRoute[];
+};
+
 /**
  * Interface for navigation adapters.
  * Implementations handle mode-specific navigation behavior.
@@ -32,15 +63,29 @@ export interface RouterAdapter {
 
   /**
    * Get the server snapshot for SSR.
-   * Returns null as location is not available on server.
+   * Returns null unless the adapter knows the location being rendered on the server.
    */
   getServerSnapshot(): LocationEntry | null;
 
   /**
    * Subscribe to location changes.
+   * The callback receives a LocationChange when the change was caused by a navigation
+   * (as opposed to a state update).
    * Returns an unsubscribe function.
    */
-  subscribe(callback: () => void): () => void;
+  subscribe(callback: (change?: LocationChange) => void): () => void;
+
+  /**
+   * Get the navigation currently in progress.
+   * Returns null when no navigation is in progress.
+   */
+  getPendingNavigation(): PendingNavigation | null;
+
+  /**
+   * Subscribe to changes of the pending navigation.
+   * Returns an unsubscribe function.
+   */
+  subscribePendingNavigation(callback: () => void): () => void;
 
   /**
    * Perform programmatic navigation.
@@ -57,10 +102,13 @@ export interface RouterAdapter {
    * Set up navigation interception for route matching.
    * Returns a cleanup function, or undefined if not supported.
    *
-   * @param routes - Route definitions to match against
+   * @param routes - Route definitions to match against with `matchRoutes`
    * @param onNavigate - Optional callback invoked before navigation is intercepted
    * @param checkBlockers - Optional function to check if any blockers are active.
    *                        If this function returns true, navigation is prevented.
+   *                        The Router passes it only while a blocker is registered,
+   *                        calling the cleanup function and setting up interception
+   *                        again when that changes.
    */
   setupInterception(
     routes: InternalRouteDefinition[],
@@ -79,4 +127,18 @@ export interface RouterAdapter {
    * Uses navigation.updateCurrentEntry() internally.
    */
   updateCurrentEntryState(state: unknown): void;
+
+  /**
+   * Loader result cache owned by this adapter, so that Routers never share
+   * loader results.
+   */
+  readonly loaderCache: LoaderCache;
+
+  /**
+   * Whether Link navigates with `navigate()` on plain clicks, for adapters
+   * whose location is not the document's (default: false).
+   * Otherwise plain link clicks are left to the browser, where the adapter
+   * intercepts them or they load the page.
+   */
+  readonly navigateOnLinkClick?: boolean;
 }
@@ -0,0 +1,89 @@
+import type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+} from "./RouterAdapter.js";
+import type {
+  InternalRouteDefinition,
+  NavigateOptions,
+  OnNavigateCallback,
+} from "../types.js";
+import type { LoaderCache } from "./loaderCache.js";
+
+/**
+ * Server adapter for rendering routes during server-side rendering.
+ * Provides a fixed location taken from the incoming request URL.
+ *
+ * A new instance is created for each request, and loader results are cached
+ * per instance so that concurrent requests never share loader data.
+ */
+export class ServerAdapter implements RouterAdapter {
+  readonly loaderCache: LoaderCache;
+  #entry: LocationEntry;
+  #idleController: AbortController | null = null;
+
+  /**
+   * @param url - URL of the request being rendered
+   * @param loaderCache - Cache for loader results (default: a new `Map`)
+   */
+  constructor(url: string | URL, loaderCache: LoaderCache = new Map()) {
+    this.loaderCache = loaderCache;
+    this.#entry = {
+      url: new URL(url),
+      key: "__server__",
+      state: undefined,
+      info: undefined,
+    };
+  }
+
+  getSnapshot(): LocationEntry | null {
+    return this.#entry;
+  }
+
+  getServerSnapshot(): LocationEntry | null {
+    return this.#entry;
+  }
+
+  subscribe(_callback: (change?: LocationChange) => void): () => void {
+    // Location never changes while rendering a request
+    return () => {};
+  }
+
+  getPendingNavigation(): PendingNavigation | null {
+    return null;
+  }
+
+  subscribePendingNavigation(_callback: () => void): () => void {
+    return () => {};
+  }
+
+  navigate(_to: string, _options?: NavigateOptions): void {
+    console.warn(
+      "FUNSTACK Router: navigate() called during server-side rendering. " +
+        "Navigation is only available in the browser.",
+    );
+  }
+
+  async navigateAsync(to: string, options?: NavigateOptions): Promise<void> {
+    this.navigate(to, options);
+  }
+
+  setupInterception(
+    _routes: InternalRouteDefinition[],
+    _onNavigate?: OnNavigateCallback,
+    _checkBlockers?: () => boolean,
+  ): (() => void) | undefined {
+    // No interception on the server
+    return undefined;
+  }
+
+  getIdleAbortSignal(): AbortSignal {
+    this.#idleController ??= new AbortController();
+    return this.#idleController.signal;
+  }
+
+  updateCurrentEntryState(_state: unknown): void {
+    // No-op on the server - there is no history entry to update
+  }
+}
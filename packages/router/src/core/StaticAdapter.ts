@@ -1,9 +1,15 @@
-import type { RouterAdapter, LocationEntry } from "./RouterAdapter.js";
+import type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+} from "./RouterAdapter.js";
 import type {
   InternalRouteDefinition,
   NavigateOptions,
   OnNavigateCallback,
 } from "../types.js";
+import type { LoaderCache } from "./loaderCache.js";
 
 /**
  * Static adapter for fallback mode when Navigation API is unavailable.
@@ -12,8 +18,16 @@ import type {
  */
 export class StaticAdapter implements RouterAdapter {
   #cachedSnapshot: LocationEntry | null = null;
+  readonly loaderCache: LoaderCache;
   #idleController: AbortController | null = null;
 
+  /**
+   * @param loaderCache - Cache for loader results (default: a new `Map`)
+   */
+  constructor(loaderCache: LoaderCache = new Map()) {
+    this.loaderCache = loaderCache;
+  }
+
   getSnapshot(): LocationEntry | null {
     if (typeof window === "undefined") {
       return null;
@@ -35,11 +49,19 @@ export class StaticAdapter implements RouterAdapter {
     return null;
   }
 
-  subscribe(_callback: () => void): () => void {
+  subscribe(_callback: (change?: LocationChange) => void): () => void {
     // Static mode never fires location change events
     return () => {};
   }
 
+  getPendingNavigation(): PendingNavigation | null {
+    return null;
+  }
+
+  subscribePendingNavigation(_callback: () => void): () => void {
+    return () => {};
+  }
+
   navigate(to: string, _options?: NavigateOptions): void {
     console.warn(
       "FUNSTACK Router: navigate() called in static fallback mode. " +
@@ -48,7 +70,7 @@ export class StaticAdapter implements RouterAdapter {
     );
     // Note: We intentionally do NOT do window.location.href = to
     // as that would mask bugs where developers expect SPA behavior.
-    // If needed in the future, we could add a "static-reload" mode.
+    // The "static-reload" mode (StaticReloadAdapter) opts into that.
   }
 
   async navigateAsync(to: string, options?: NavigateOptions): Promise<void> {
@@ -0,0 +1,188 @@
+import type {
+  RouterAdapter,
+  LocationEntry,
+  LocationChange,
+  PendingNavigation,
+} from "./RouterAdapter.js";
+import type {
+  InternalRouteDefinition,
+  NavigateOptions,
+  OnNavigateCallback,
+} from "../types.js";
+import type { LoaderCache } from "./loaderCache.js";
+import { isHashChange } from "./navigateEvent.js";
+
+const STATE_KEY_PREFIX = "@funstack/router:entry-state:";
+
+/**
+ * Static adapter whose navigations are real page loads
+ * (`fallback="static-reload"`), for browsers without the Navigation API.
+ *
+ * `navigate` maps to `location.assign` (or `location.replace`), and state is
+ * kept in `sessionStorage` by URL, approximating per-entry state. Blockers
+ * are checked before `navigate` leaves the page, and on `beforeunload` for
+ * other page loads, where the browser shows its own confirmation dialog.
+ */
+export class StaticReloadAdapter implements RouterAdapter {
+  readonly loaderCache: LoaderCache;
+  #cachedSnapshot: LocationEntry | null = null;
+  #idleController: AbortController | null = null;
+  #listeners = new Set<(change?: LocationChange) => void>();
+  #checkBlockers: (() => boolean) | undefined = undefined;
+  // Set when navigate() already checked the blockers for the page load it starts
+  #leavingChecked = false;
+
+  /**
+   * @param loaderCache - Cache for loader results (default: a new `Map`)
+   */
+  constructor(loaderCache: LoaderCache = new Map()) {
+    this.loaderCache = loaderCache;
+  }
+
+  getSnapshot(): LocationEntry | null {
+    if (typeof window === "undefined") {
+      return null;
+    }
+    if (!this.#cachedSnapshot) {
+      const url = new URL(window.location.href);
+      this.#cachedSnapshot = {
+        url,
+        key: "__static__",
+        state: readEntryState(url),
+        info: undefined,
+      };
+    }
+    return this.#cachedSnapshot;
+  }
+
+  getServerSnapshot(): LocationEntry | null {
+    return null;
+  }
+
+  subscribe(callback: (change?: LocationChange) => void): () => void {
+    // Only state updates are reported; navigations load a new page
+    this.#listeners.add(callback);
+    return () => {
+      this.#listeners.delete(callback);
+    };
+  }
+
+  getPendingNavigation(): PendingNavigation | null {
+    return null;
+  }
+
+  subscribePendingNavigation(_callback: () => void): () => void {
+    return () => {};
+  }
+
+  navigate(to: string, options?: NavigateOptions): void {
+    this.navigateAsync(to, options).catch(() => {});
+  }
+
+  async navigateAsync(to: string, options?: NavigateOptions): Promise<void> {
+    const url = new URL(to, window.location.href);
+
+    // Replacing the current URL only updates its state, e.g. for setState,
+    // instead of reloading the page
+    if (options?.replace && url.href === window.location.href) {
+      this.updateCurrentEntryState(options.state);
+      return;
+    }
+
+    if (this.#checkBlockers?.()) {
+      throw new DOMException("Navigation was aborted", "AbortError");
+    }
+
+    writeEntryState(url, options?.state);
+    // Fragment navigations stay on the page, so they don't unload it
+    this.#leavingChecked = !isHashChange(url, new URL(window.location.href));
+    try {
+      if (options?.replace) {
+        window.location.replace(url.href);
+      } else {
+        window.location.assign(url.href);
+      }
+    } finally {
+      // beforeunload fires synchronously as the load starts. The page may
+      // still stay (e.g. a 204 response, a download, or the user stopping
+      // the load), and later unloads must check the blockers again
+      this.#leavingChecked = false;
+    }
+  }
+
+  setupInterception(
+    _routes: InternalRouteDefinition[],
+    _onNavigate?: OnNavigateCallback,
+    checkBlockers?: () => boolean,
+  ): (() => void) | undefined {
+    // Links cause full page loads, which only blockers can stop. The
+    // beforeunload listener is installed only while a blocker is registered,
+    // since it keeps the page out of the back/forward cache
+    this.#checkBlockers = checkBlockers;
+    if (!checkBlockers) {
+      return undefined;
+    }
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (this.#leavingChecked || !checkBlockers()) {
+        return;
+      }
+      event.preventDefault();
+      // Required by older browsers to show the dialog
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      this.#checkBlockers = undefined;
+    };
+  }
+
+  getIdleAbortSignal(): AbortSignal {
+    this.#idleController ??= new AbortController();
+    return this.#idleController.signal;
+  }
+
+  updateCurrentEntryState(state: unknown): void {
+    writeEntryState(new URL(window.location.href), state);
+    this.#cachedSnapshot = null;
+    for (const listener of this.#listeners) {
+      listener();
+    }
+  }
+}
+
+function getStateKey(url: URL): string {
+  const withoutHash = new URL(url);
+  withoutHash.hash = "";
+  return `${STATE_KEY_PREFIX}${withoutHash.href}`;
+}
+
+/**
+ * Read the state stored for a URL. Storage errors and unparseable state
+ * read as undefined.
+ */
+function readEntryState(url: URL): unknown {
+  try {
+    const item = sessionStorage.getItem(getStateKey(url));
+    return item === null ? undefined : JSON.parse(item);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store the state for a URL, or remove it when undefined.
+ * Storage errors are ignored, losing the state.
+ */
+function writeEntryState(url: URL, state: unknown): void {
+  try {
+    if (state === undefined) {
+      sessionStorage.removeItem(getStateKey(url));
+    } else {
+      sessionStorage.setItem(getStateKey(url), JSON.stringify(state));
+    }
+  } catch {
+    // Ignored, see above
+  }
+}
@@ -1,8 +1,12 @@
 import type { RouterAdapter } from "./RouterAdapter.js";
 import { NavigationAPIAdapter } from "./NavigationAPIAdapter.js";
 import { StaticAdapter } from "./StaticAdapter.js";
+import { StaticReloadAdapter } from "./StaticReloadAdapter.js";
+import { HistoryAdapter } from "./HistoryAdapter.js";
 import { NullAdapter } from "./NullAdapter.js";
+import { ServerAdapter } from "./ServerAdapter.js";
 import type { FallbackMode } from "../types.js";
+import type { LoaderCache } from "./loaderCache.js";
 
 /**
  * Check if Navigation API is available.
@@ -16,19 +20,38 @@ function hasNavigation(): boolean {
  * and the specified fallback mode.
  *
  * @param fallback - The fallback mode to use when Navigation API is unavailable
+ * @param serverUrl - URL of the request being rendered on the server, if any
+ * @param loaderCache - Cache for loader results (default: a new `Map`)
  * @returns A RouterAdapter instance
  */
-export function createAdapter(fallback: FallbackMode): RouterAdapter {
+export function createAdapter(
+  fallback: FallbackMode,
+  serverUrl?: string | URL,
+  loaderCache?: LoaderCache,
+): RouterAdapter {
+  // Render the requested location during server-side rendering
+  if (typeof window === "undefined" && serverUrl !== undefined) {
+    return new ServerAdapter(serverUrl, loaderCache);
+  }
+
   // Try Navigation API first
   if (hasNavigation()) {
-    return new NavigationAPIAdapter();
+    return new NavigationAPIAdapter(loaderCache);
+  }
+
+  // Emulate the Navigation API with the History API if enabled
+  if (fallback === "history" && typeof window !== "undefined") {
+    return new HistoryAdapter(loaderCache);
   }
 
   // Fall back to static mode if enabled
   if (fallback === "static") {
-    return new StaticAdapter();
+    return new StaticAdapter(loaderCache);
+  }
+  if (fallback === "static-reload") {
+    return new StaticReloadAdapter(loaderCache);
   }
 
   // No adapter available (fallback="none" or default)
-  return new NullAdapter();
+  return new NullAdapter(loaderCache);
 }
@@ -0,0 +1,151 @@
+import type { MatchedRouteWithData } from "../types.js";
+import {
+  type LoaderCache,
+  LoaderError,
+  isPromiseLike,
+  seedLoaderResult,
+} from "./loaderCache.js";
+
+/**
+ * Settled result of a single loader, serialized for hydration.
+ * `type` records whether the loader returned a Promise or a plain value,
+ * so that the client hands the same shape to route components.
+ */
+export type SerializedLoaderResult = {
+  type: "promise" | "value";
+  value: unknown;
+};
+
+/**
+ * Loader results collected on the server, embedded in the HTML and passed
+ * to `<Router hydrationData>` on the client.
+ */
+export type HydrationData = {
+  /** URL the loader results were produced for */
+  url: string;
+  /**
+   * Loader results indexed by match position.
+   * `null` for routes without a loader and for loaders that failed;
+   * those loaders run again on the client.
+   */
+  results: (SerializedLoaderResult | null)[];
+};
+
+/**
+ * Collects loader results while rendering on the server.
+ * Create one per request and pass it to `<Router loaderDataCollector>`.
+ */
+export type LoaderDataCollector = {
+  /** Record loader results for a rendered location. Called by the Router. */
+  collect(url: URL, matchedRoutes: readonly MatchedRouteWithData[]): void;
+  /** Wait for all collected loaders to settle and return the results. */
+  getHydrationData(): Promise<HydrationData | null>;
+  /**
+   * Wait for all collected loaders to settle and serialize the results
+   * as JSON that is safe to embed in a `<script>` element.
+   */
+  serialize(): Promise<string>;
+};
+
+/**
+ * Create a collector for loader results rendered on the server.
+ *
+ * @example
+ * ```tsx
+ * const loaderData = createLoaderDataCollector();
+ * const html = renderToString(
+ *   <Router routes={routes} url={request.url} loaderDataCollector={loaderData} />,
+ * );
+ * const payload = await loaderData.serialize();
+ * // Embed as <script type="application/json" id="router-data">{payload}</script>
+ * ```
+ */
+export function createLoaderDataCollector(): LoaderDataCollector {
+  let collected: {
+    url: string;
+    matchedRoutes: readonly MatchedRouteWithData[];
+  } | null = null;
+
+  const getHydrationData = async (): Promise<HydrationData | null> => {
+    if (!collected) {
+      return null;
+    }
+    const { url, matchedRoutes } = collected;
+    const results = await Promise.all(
+      matchedRoutes.map(
+        async ({ route, data }): Promise<SerializedLoaderResult | null> => {
+          if (!route.loader || data instanceof LoaderError) {
+            return null;
+          }
+          if (!isPromiseLike(data)) {
+            return { type: "value", value: data };
+          }
+          try {
+            return { type: "promise", value: await data };
+          } catch {
+            // Failed loaders are not serialized; the client runs them again
+            return null;
+          }
+        },
+      ),
+    );
+    return { url, results };
+  };
+
+  return {
+    collect(url, matchedRoutes) {
+      collected = { url: url.href, matchedRoutes };
+    },
+    getHydrationData,
+    async serialize() {
+      const data = await getHydrationData();
+      return escapeForScript(JSON.stringify(data));
+    },
+  };
+}
+
+/**
+ * Seed the loader cache for an entry from hydration data, so that loaders
+ * which already ran on the server are not executed again on the client.
+ * Does nothing if the data was produced for a different path or query.
+ * The origin and hash are not compared: the server never sees the hash, and
+ * behind a proxy it often sees another host.
+ *
+ * Promises are created already settled and tagged the way React's `use()`
+ * recognizes, so hydrating components do not suspend on them.
+ */
+export function hydrateLoaderCache(
+  hydrationData: HydrationData,
+  url: URL,
+  entryId: string,
+  cache: LoaderCache,
+): void {
+  const dataUrl = new URL(hydrationData.url, url);
+  if (dataUrl.pathname !== url.pathname || dataUrl.search !== url.search) {
+    return;
+  }
+  hydrationData.results.forEach((result, matchIndex) => {
+    if (!result) {
+      return;
+    }
+    let value = result.value;
+    if (result.type === "promise") {
+      value = Object.assign(Promise.resolve(result.value), {
+        status: "fulfilled",
+        value: result.value,
+      });
+    }
+    seedLoaderResult(entryId, matchIndex, value, cache);
+  });
+}
+
+/**
+ * Escape characters that could terminate a `<script>` element
+ * or break JavaScript parsing when embedded inline.
+ */
+function escapeForScript(json: string): string {
+  return json
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
@@ -0,0 +1,42 @@
+type ClickModifiers = {
+  button: number;
+  metaKey: boolean;
+  ctrlKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+};
+
+/**
+ * Whether a click is a left click without modifier keys, which browsers
+ * handle by navigating the current tab.
+ */
+export function isPlainLeftClick(event: ClickModifiers): boolean {
+  return (
+    event.button === 0 &&
+    !event.metaKey &&
+    !event.ctrlKey &&
+    !event.shiftKey &&
+    !event.altKey
+  );
+}
+
+/**
+ * Get the link a document click navigates the current tab with, or null when
+ * the click does not navigate it (default prevented, modifier keys, another
+ * target, or a download).
+ */
+export function getNavigatingLink(event: MouseEvent): HTMLAnchorElement | null {
+  if (event.defaultPrevented || !isPlainLeftClick(event)) {
+    return null;
+  }
+  const anchor =
+    event.target instanceof Element ? event.target.closest("a[href]") : null;
+  if (
+    !(anchor instanceof HTMLAnchorElement) ||
+    (anchor.target !== "" && anchor.target !== "_self") ||
+    anchor.hasAttribute("download")
+  ) {
+    return null;
+  }
+  return anchor;
+}
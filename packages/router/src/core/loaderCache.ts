@@ -1,4 +1,5 @@
 import type { LoaderArgs } from "../route.js";
+import { parseSearchParams } from "./searchParams.js";
 import type {
   MatchedRoute,
   MatchedRouteWithData,
@@ -6,20 +7,97 @@ import type {
 } from "../types.js";
 
 /**
- * Cache for loader results.
+ * Cache for loader results, owned by each Router's adapter.
  * Key format: `${entryId}:${matchIndex}`
+ *
+ * Results prefetched before navigating are kept in the same cache, under
+ * `prefetch:${url without hash}:${matchIndex}`.
+ *
+ * A `Map` implements it. Entries must iterate in insertion order,
+ * which LRU eviction relies on.
  */
-const loaderCache = new Map<string, unknown>();
+export type LoaderCache = {
+  has(key: string): boolean;
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+  delete(key: string): void;
+  entries(): Iterable<[string, unknown]>;
+};
+
+/**
+ * Limits on the loader cache, counted per history entry.
+ * When a limit is exceeded, the results of the least recently rendered
+ * entries are evicted, except those of the current entry.
+ */
+export type LoaderCacheLimits = {
+  /** Maximum number of history entries with cached loader results */
+  maxEntries?: number;
+  /**
+   * Maximum estimated size of cached loader results, in bytes.
+   * Sizes are estimated from the JSON serialization of results
+   * once they resolve; pending results count as empty.
+   */
+  maxBytes?: number;
+};
+
+/**
+ * Estimated sizes of loader results, keyed by the object or Promise returned
+ * by the loader, so that eviction does not serialize them again.
+ */
+const resultSizes = new WeakMap<object, number>();
+
+/**
+ * A loader result fetched before navigating to its URL.
+ */
+type PrefetchedResult = {
+  /** The route whose loader produced the result */
+  route: InternalRouteDefinition;
+  /** The loader result */
+  data: unknown;
+  /** Time after which the result is discarded */
+  expiresAt: number;
+};
+
+/**
+ * Prefix of the keys of prefetched results in a loader cache.
+ * Results are moved to their entry's key when a navigation to the URL renders.
+ */
+const prefetchKeyPrefix = "prefetch:";
+
+/**
+ * Wraps an error thrown synchronously by a loader.
+ * Cached in place of the result, and rethrown when the route renders
+ * so that the route's error boundary can catch it.
+ */
+export class LoaderError {
+  readonly error: unknown;
+
+  constructor(error: unknown) {
+    this.error = error;
+  }
+}
+
+/**
+ * Whether a value is a Promise or another thenable, as loaders may return.
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
 
 /**
  * Get or create a loader result from cache.
  * If the result is not cached, executes the loader and caches the result.
  */
 function getOrCreateLoaderResult(
+  cache: LoaderCache,
   entryId: string,
   matchIndex: number,
   route: InternalRouteDefinition,
-  args: LoaderArgs,
+  args: RouteLoaderArgs,
 ): unknown | undefined {
   if (!route.loader) {
     return undefined;
@@ -27,11 +105,143 @@ function getOrCreateLoaderResult(
 
   const cacheKey = `${entryId}:${matchIndex}`;
 
-  if (!loaderCache.has(cacheKey)) {
-    loaderCache.set(cacheKey, route.loader(args));
+  if (cache.has(cacheKey)) {
+    // Move the result to the end, marking it as most recently used
+    const cached = cache.get(cacheKey);
+    cache.delete(cacheKey);
+    cache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const prefetched = takePrefetchedResult(
+    cache,
+    new URL(args.request.url),
+    matchIndex,
+    route,
+  );
+  const result = prefetched ? prefetched.data : runLoader(route, args);
+  cache.set(cacheKey, result);
+  return result;
+}
+
+/**
+ * Loader args other than those derived from the route itself.
+ */
+type RouteLoaderArgs = Omit<LoaderArgs, "search">;
+
+/**
+ * Call a route's loader, capturing a synchronous throw as a LoaderError.
+ * Search params that fail the route's schema are captured the same way.
+ */
+function runLoader(
+  route: InternalRouteDefinition,
+  args: RouteLoaderArgs,
+): unknown {
+  try {
+    const search = route.searchParams
+      ? parseSearchParams(
+          route.searchParams,
+          new URL(args.request.url).searchParams,
+        )
+      : undefined;
+    return route.loader?.({ ...args, search });
+  } catch (error) {
+    return new LoaderError(error);
   }
+}
 
-  return loaderCache.get(cacheKey);
+function getPrefetchKey(url: URL, matchIndex: number): string {
+  const withoutHash = new URL(url);
+  withoutHash.hash = "";
+  return `${prefetchKeyPrefix}${withoutHash.href}:${matchIndex}`;
+}
+
+/**
+ * Remove and return an unexpired prefetched result for the given match.
+ */
+function takePrefetchedResult(
+  cache: LoaderCache,
+  url: URL,
+  matchIndex: number,
+  route: InternalRouteDefinition,
+): PrefetchedResult | undefined {
+  const key = getPrefetchKey(url, matchIndex);
+  const prefetched = cache.get(key) as PrefetchedResult | undefined;
+  if (!prefetched) {
+    return undefined;
+  }
+  cache.delete(key);
+  if (prefetched.route !== route || prefetched.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  return prefetched;
+}
+
+/**
+ * Run loaders of the matched routes for a URL ahead of navigation.
+ * A navigation to the URL that renders before `expiresAt` reuses the results
+ * instead of running the loaders again.
+ * Loaders that were already prefetched and have not expired are not run again.
+ *
+ * @param cache - Cache of the Router's adapter to store results in
+ */
+export function prefetchLoaders(
+  matchedRoutes: MatchedRoute[],
+  url: URL,
+  expiresAt: number,
+  cache: LoaderCache,
+): void {
+  deleteExpiredPrefetches(cache);
+
+  const request = createLoaderRequest(url);
+  // Prefetched results may outlive the current page, so they are never aborted
+  const signal = new AbortController().signal;
+  // Result of the nearest ancestor with a loader
+  let parentData: unknown = undefined;
+  for (const [index, match] of matchedRoutes.entries()) {
+    const { route, params } = match;
+    const key = getPrefetchKey(url, index);
+    let prefetched = cache.get(key) as PrefetchedResult | undefined;
+    if (prefetched?.route !== route) {
+      prefetched = undefined;
+      if (route.loader) {
+        const data = runLoader(route, {
+          params,
+          request,
+          signal,
+          parentData: toParentData(parentData),
+        });
+        if (data instanceof Promise) {
+          // A rejection is reported when the result is rendered, not when
+          // a prefetch that is never used fails
+          data.catch(() => {});
+        }
+        prefetched = { route, data, expiresAt };
+        cache.set(key, prefetched);
+      }
+    }
+    if (route.loader) {
+      parentData = prefetched?.data;
+    }
+  }
+}
+
+/**
+ * Delete prefetched results that have expired without being navigated to.
+ */
+function deleteExpiredPrefetches(cache: LoaderCache): void {
+  const now = Date.now();
+  // Collect keys first, since the cache may not support deleting while iterating
+  const expiredKeys = [...cache.entries()]
+    .filter(
+      ([key, prefetched]) =>
+        key.startsWith(prefetchKeyPrefix) &&
+        (prefetched as PrefetchedResult).expiresAt <= now,
+    )
+    .map(([key]) => key);
+  for (const key of expiredKeys) {
+    cache.delete(key);
+  }
 }
 
 /**
@@ -46,39 +256,182 @@ export function createLoaderRequest(url: URL): Request {
 /**
  * Execute loaders for matched routes and return routes with data.
  * Results are cached by navigation entry id to prevent duplicate execution.
+ *
+ * @param cache - Cache of the Router's adapter to store results in
  */
 export function executeLoaders(
   matchedRoutes: MatchedRoute[],
   entryId: string,
   request: Request,
   signal: AbortSignal,
+  cache: LoaderCache,
 ): MatchedRouteWithData[] {
-  return matchedRoutes.map((match, index) => {
+  const results: MatchedRouteWithData[] = [];
+  // Result of the nearest ancestor with a loader, skipping layouts without one
+  let ancestorData: unknown = undefined;
+  for (const [index, match] of matchedRoutes.entries()) {
     const { route, params } = match;
-    const args: LoaderArgs = { params, request, signal };
-    const data = getOrCreateLoaderResult(entryId, index, route, args);
+    // Loaders run without waiting for each other. A loader that needs its
+    // parent's data awaits `parentData` itself.
+    const parentData = toParentData(ancestorData);
+    const args: RouteLoaderArgs = { params, request, signal, parentData };
+    const data = getOrCreateLoaderResult(cache, entryId, index, route, args);
+    if (route.loader) {
+      ancestorData = data;
+    }
 
-    return { ...match, data };
-  });
+    results.push({ ...match, data });
+  }
+  return results;
+}
+
+/**
+ * Convert a parent's loader result into the `parentData` passed to its child.
+ * A loader that threw synchronously is exposed as a rejected Promise.
+ */
+function toParentData(data: unknown): unknown {
+  if (data instanceof LoaderError) {
+    const rejected = Promise.reject(data.error);
+    // The parent route reports the error; avoid an unhandled rejection
+    // when the child does not read its parent's data
+    rejected.catch(() => {});
+    return rejected;
+  }
+  return data;
 }
 
 /**
- * Clear the loader cache.
- * Mainly used for testing.
+ * Store a loader result produced elsewhere (e.g. on the server) in the cache.
+ * Existing results are kept, so a loader that already ran is never overwritten.
  */
-export function clearLoaderCache(): void {
-  loaderCache.clear();
+export function seedLoaderResult(
+  entryId: string,
+  matchIndex: number,
+  value: unknown,
+  cache: LoaderCache,
+): void {
+  const cacheKey = `${entryId}:${matchIndex}`;
+  if (!cache.has(cacheKey)) {
+    cache.set(cacheKey, value);
+  }
+}
+
+/**
+ * Estimate the size of a loader result in bytes from its JSON serialization.
+ * Results that are pending, errors, or not serializable count as empty.
+ * Sizes of objects are computed once; later changes to them are not counted.
+ */
+function estimateResultSize(result: unknown): number {
+  if (result instanceof Promise) {
+    const size = resultSizes.get(result);
+    if (size === undefined) {
+      result.then(
+        (value: unknown) => {
+          resultSizes.set(result, estimateResultSize(value));
+        },
+        () => {},
+      );
+    }
+    return size ?? 0;
+  }
+  if (result instanceof LoaderError) {
+    return 0;
+  }
+  if (typeof result !== "object" || result === null) {
+    return serializedSize(result);
+  }
+  let size = resultSizes.get(result);
+  if (size === undefined) {
+    size = serializedSize(result);
+    resultSizes.set(result, size);
+  }
+  return size;
+}
+
+function serializedSize(value: unknown): number {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Evict loader results of the least recently used history entries until
+ * the cache is within the given limits. Results of the current entry are
+ * never evicted, even if they alone exceed the limits. Prefetched results
+ * are not counted; those that expired are deleted.
+ */
+export function evictLoaderCache(
+  currentEntryId: string,
+  limits: LoaderCacheLimits,
+  cache: LoaderCache,
+): void {
+  deleteExpiredPrefetches(cache);
+  const { maxEntries = Infinity, maxBytes = Infinity } = limits;
+  if (maxEntries === Infinity && maxBytes === Infinity) {
+    return;
+  }
+
+  // Group results by entry, ordered from least to most recently used.
+  // An entry is as recent as its most recently used result.
+  const entries = new Map<string, { keys: string[]; size: number }>();
+  let totalSize = 0;
+  for (const [key, result] of cache.entries()) {
+    if (key.startsWith(prefetchKeyPrefix)) {
+      continue;
+    }
+    const entryId = key.slice(0, key.lastIndexOf(":"));
+    const entry = entries.get(entryId) ?? { keys: [], size: 0 };
+    entries.delete(entryId);
+    entries.set(entryId, entry);
+    const size = estimateResultSize(result);
+    entry.keys.push(key);
+    entry.size += size;
+    totalSize += size;
+  }
+
+  for (const [entryId, entry] of entries) {
+    if (entries.size <= maxEntries && totalSize <= maxBytes) {
+      return;
+    }
+    if (entryId === currentEntryId) {
+      continue;
+    }
+    for (const key of entry.keys) {
+      cache.delete(key);
+    }
+    entries.delete(entryId);
+    totalSize -= entry.size;
+  }
+}
+
+/**
+ * Clear the cached loader result of a single matched route,
+ * so that its loader runs again on the next render.
+ */
+export function clearLoaderCacheForMatch(
+  entryId: string,
+  matchIndex: number,
+  cache: LoaderCache,
+): void {
+  cache.delete(`${entryId}:${matchIndex}`);
 }
 
 /**
  * Clear loader cache entries for a specific navigation entry.
  * Called when a NavigationHistoryEntry is disposed (removed from history stack).
  */
-export function clearLoaderCacheForEntry(entryId: string): void {
+export function clearLoaderCacheForEntry(
+  entryId: string,
+  cache: LoaderCache,
+): void {
   const prefix = `${entryId}:`;
-  for (const key of loaderCache.keys()) {
-    if (key.startsWith(prefix)) {
-      loaderCache.delete(key);
-    }
+  // Collect keys first, since the cache may not support deleting while iterating
+  const keys = [...cache.entries()]
+    .map(([key]) => key)
+    .filter((key) => key.startsWith(prefix));
+  for (const key of keys) {
+    cache.delete(key);
   }
 }
@@ -0,0 +1,73 @@
+/**
+ * History entry navigated to by a traversal, as known to the adapter.
+ */
+export type DestinationEntry = {
+  key: string;
+  index: number;
+  state: unknown;
+};
+
+export type EmulatedNavigateEventInit = {
+  url: URL;
+  navigationType: NavigationType;
+  canIntercept: boolean;
+  userInitiated: boolean;
+  hashChange: boolean;
+  destinationEntry: DestinationEntry | null;
+  state: unknown;
+  info: unknown;
+};
+
+/**
+ * Stand-in for the Navigation API's NavigateEvent, passed to `onNavigate` by
+ * adapters that perform navigations themselves. Only the members describing
+ * the navigation and `preventDefault` are meaningful; `intercept` and
+ * `scroll` do nothing, since the adapter already handles the navigation.
+ */
+export class EmulatedNavigateEvent extends Event implements NavigateEvent {
+  readonly navigationType: NavigationType;
+  readonly destination: NavigationDestination;
+  readonly canIntercept: boolean;
+  readonly userInitiated: boolean;
+  readonly hashChange: boolean;
+  readonly signal: AbortSignal = new AbortController().signal;
+  readonly formData: FormData | null = null;
+  readonly downloadRequest: string | null = null;
+  readonly info: unknown;
+  readonly hasUAVisualTransition = false;
+
+  constructor(init: EmulatedNavigateEventInit) {
+    super("navigate", { cancelable: true });
+    const { destinationEntry } = init;
+    const state = destinationEntry ? destinationEntry.state : init.state;
+    this.navigationType = init.navigationType;
+    this.canIntercept = init.canIntercept;
+    this.userInitiated = init.userInitiated;
+    this.hashChange = init.hashChange;
+    this.destination = {
+      url: init.url.href,
+      key: destinationEntry?.key ?? "",
+      id: destinationEntry?.key ?? "",
+      index: destinationEntry?.index ?? -1,
+      sameDocument: init.canIntercept,
+      getState: () => state,
+    };
+    this.info = init.info;
+  }
+
+  intercept(): void {}
+
+  scroll(): void {}
+}
+
+/**
+ * Whether navigating from `current` to `url` only changes the fragment.
+ */
+export function isHashChange(url: URL, current: URL): boolean {
+  return (
+    url.hash !== "" &&
+    url.origin === current.origin &&
+    url.pathname === current.pathname &&
+    url.search === current.search
+  );
+}
@@ -0,0 +1,112 @@
+import type { PendingNavigation } from "./RouterAdapter.js";
+import type { MatchedRoute } from "../types.js";
+import {
+  type LoaderCache,
+  executeLoaders,
+  createLoaderRequest,
+} from "./loaderCache.js";
+
+/**
+ * Tracks the navigation in progress for adapters that perform navigations
+ * themselves instead of the Navigation API (HistoryAdapter, MemoryAdapter).
+ *
+ * Starting a navigation aborts the loaders of the previous one and of the
+ * initial load, and marks the navigation as pending until its loaders settle.
+ */
+export class NavigationTracker {
+  readonly #loaderCache: LoaderCache;
+  /**
+   * Fallback AbortController for data loading initialized outside of a navigation.
+   * Aborted when the next navigation occurs.
+   */
+  #idleController: AbortController | null = null;
+  // Aborts loaders of the navigation in progress when another one starts
+  #navigationController: AbortController | null = null;
+  #pendingNavigation: PendingNavigation | null = null;
+  #pendingNavigationListeners = new Set<() => void>();
+
+  constructor(loaderCache: LoaderCache) {
+    this.#loaderCache = loaderCache;
+  }
+
+  getIdleAbortSignal(): AbortSignal {
+    this.#idleController ??= new AbortController();
+    return this.#idleController.signal;
+  }
+
+  getPendingNavigation(): PendingNavigation | null {
+    return this.#pendingNavigation;
+  }
+
+  subscribePendingNavigation(callback: () => void): () => void {
+    this.#pendingNavigationListeners.add(callback);
+    return () => {
+      this.#pendingNavigationListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Abort loaders of the previous navigation and mark a navigation as pending.
+   * Returns the signal passed to the navigation's loaders.
+   */
+  start(
+    url: URL,
+    navigationType: NavigationType,
+    matched: MatchedRoute[],
+  ): AbortSignal {
+    this.#navigationController?.abort();
+    // Abort initial load's loaders if this is the first navigation
+    this.#idleController?.abort();
+    this.#idleController = null;
+
+    const controller = new AbortController();
+    this.#navigationController = controller;
+    this.#setPendingNavigation({ url, navigationType, matchedRoutes: matched });
+    return controller.signal;
+  }
+
+  /**
+   * Wait for the loaders of the entry navigated to, then for `afterLoad`.
+   * The navigation stays pending until both settle.
+   * Rejects when the navigation was aborted by another one, or a loader rejects.
+   */
+  async finish(
+    matched: MatchedRoute[],
+    key: string,
+    url: URL,
+    signal: AbortSignal,
+    afterLoad?: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      // Retrieves the results cached by the Router's render, or runs the
+      // loaders when the Router has not rendered the entry yet
+      const results = executeLoaders(
+        matched,
+        key,
+        createLoaderRequest(url),
+        signal,
+        this.#loaderCache,
+      );
+      await Promise.all(results.map((r) => r.data));
+      await afterLoad?.();
+    } finally {
+      if (this.#navigationController?.signal === signal) {
+        this.#navigationController = null;
+        this.#setPendingNavigation(null);
+      }
+    }
+    if (signal.aborted) {
+      throw new DOMException("Navigation was aborted", "AbortError");
+    }
+  }
+
+  #setPendingNavigation(pendingNavigation: PendingNavigation | null): void {
+    if (this.#pendingNavigation === pendingNavigation) {
+      return;
+    }
+    this.#pendingNavigation = pendingNavigation;
+    for (const listener of this.#pendingNavigationListeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import type { MatchedRoute } from "../types.js";
+
+/**
+ * Join the pathnames consumed by matched routes up to (and including) `index`
+ * into the absolute pathname matched by that route.
+ */
+export function getMatchedPathname(
+  matchedRoutes: readonly MatchedRoute[],
+  index: number,
+): string {
+  const segments = matchedRoutes
+    .slice(0, index + 1)
+    .flatMap((match) => match.pathname.split("/").filter(Boolean));
+  return "/" + segments.join("/");
+}
+
+/**
+ * Resolve a relative path such as `"details"` or `"../edit"` against
+ * the absolute pathname of a route. The route's pathname is treated as a
+ * directory, so `".."` goes up one segment from it.
+ *
+ * Absolute paths, full URLs and search- or hash-only targets are returned
+ * as-is, to be resolved against the document URL.
+ */
+export function resolvePath(to: string, basePathname: string): string {
+  if (!isRelativePath(to)) {
+    return to;
+  }
+
+  const base = basePathname.endsWith("/") ? basePathname : `${basePathname}/`;
+  const resolved = new URL(to, `http://localhost${base}`);
+
+  // Drop the directory slash left by targets like "." or ".."
+  const targetPath = to.split(/[?#]/)[0];
+  const pathname =
+    /(^|\/)\.\.?$/.test(targetPath) && resolved.pathname !== "/"
+      ? resolved.pathname.slice(0, -1)
+      : resolved.pathname;
+  return `${pathname}${resolved.search}${resolved.hash}`;
+}
+
+function isRelativePath(to: string): boolean {
+  return (
+    to !== "" &&
+    !to.startsWith("/") &&
+    !to.startsWith("?") &&
+    !to.startsWith("#") &&
+    // URLs with a scheme, e.g. "https:" or "mailto:"
+    !/^[a-zA-Z][a-zA-Z\d+\-.]*:/.test(to)
+  );
+}
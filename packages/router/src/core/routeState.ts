@@ -0,0 +1,185 @@
+import type {
+  InternalRouteDefinition,
+  InternalRouteState,
+  LegacyInternalRouteState,
+} from "../types.js";
+import { type StandardSchemaIssue, validateSync } from "./standardSchema.js";
+
+/**
+ * Version of a route's state shape. Routes without a version have version 0.
+ */
+export function getRouteStateVersion(route: InternalRouteDefinition): number {
+  return route.stateVersion ?? 0;
+}
+
+/**
+ * Get the ids keying the state slots of a matched route stack.
+ *
+ * A route's id is its explicit `id`, or else its full path pattern
+ * (e.g. "/users/:id"). Routes that add no path segments to their parent's
+ * pattern (e.g. index routes with path "") get a `#n` suffix, counting the
+ * ancestors with the same pattern.
+ */
+export function getRouteIds(
+  routes: readonly InternalRouteDefinition[],
+): string[] {
+  const ids: string[] = [];
+  const segments: string[] = [];
+  const patternCounts = new Map<string, number>();
+  for (const route of routes) {
+    segments.push(...route.path.split("/").filter(Boolean));
+    const pattern = "/" + segments.join("/");
+    const count = patternCounts.get(pattern) ?? 0;
+    patternCounts.set(pattern, count + 1);
+    ids.push(route.id ?? (count === 0 ? pattern : `${pattern}#${count}`));
+  }
+  return ids;
+}
+
+/**
+ * Normalize the state of a history entry to state slots keyed by route id.
+ * State in the legacy format, indexed by match position, is assigned to
+ * the routes currently matched at those positions.
+ */
+export function toKeyedRouteState(
+  state: unknown,
+  routeIds: readonly string[],
+): InternalRouteState {
+  const internalState = state as
+    | InternalRouteState
+    | LegacyInternalRouteState
+    | undefined;
+  if (!internalState?.__routeStates) {
+    return { __routeStates: {}, __routeStateVersions: {} };
+  }
+  if (!isLegacyRouteState(internalState)) {
+    return internalState;
+  }
+
+  const keyed: InternalRouteState = {
+    __routeStates: {},
+    __routeStateVersions: {},
+  };
+  routeIds.forEach((id, index) => {
+    const routeState = internalState.__routeStates[index];
+    if (routeState !== undefined) {
+      keyed.__routeStates[id] = routeState;
+      keyed.__routeStateVersions![id] =
+        internalState.__routeStateVersions?.[index] ?? 0;
+    }
+  });
+  return keyed;
+}
+
+function isLegacyRouteState(
+  state: InternalRouteState | LegacyInternalRouteState,
+): state is LegacyInternalRouteState {
+  return Array.isArray(state.__routeStates);
+}
+
+/**
+ * Read a route's state from the keyed internal state of a history entry.
+ * State stored with another version than the route's current one is passed
+ * through the route's `migrateState`, or dropped when it has none.
+ */
+export function readRouteState(
+  route: InternalRouteDefinition,
+  internalState: InternalRouteState,
+  routeId: string,
+): unknown {
+  const state = internalState.__routeStates[routeId];
+  const storedVersion = internalState.__routeStateVersions?.[routeId] ?? 0;
+  if (state === undefined || storedVersion === getRouteStateVersion(route)) {
+    return state;
+  }
+  return route.migrateState
+    ? route.migrateState(state, storedVersion)
+    : undefined;
+}
+
+/**
+ * Create internal state with one route's state slot replaced,
+ * recording the state version of the route that wrote it.
+ */
+export function setRouteState(
+  internalState: InternalRouteState,
+  routeId: string,
+  state: unknown,
+  version: number,
+): InternalRouteState {
+  return {
+    __routeStates: { ...internalState.__routeStates, [routeId]: state },
+    __routeStateVersions: {
+      ...internalState.__routeStateVersions,
+      [routeId]: version,
+    },
+  };
+}
+
+/**
+ * Migrate the state of every matched route that was stored with another
+ * state version, and convert state in the legacy format, so that the result
+ * can be written back to the history entry.
+ * Returns null when the stored state is already current.
+ */
+export function migrateRouteStates(
+  routes: readonly InternalRouteDefinition[],
+  state: unknown,
+): InternalRouteState | null {
+  const routeIds = getRouteIds(routes);
+  const keyed = toKeyedRouteState(state, routeIds);
+  // Legacy state is converted even when no route needs migrating
+  const isLegacy = Array.isArray(
+    (state as LegacyInternalRouteState | undefined)?.__routeStates,
+  );
+  let migrated: InternalRouteState | null = isLegacy ? keyed : null;
+  routes.forEach((route, index) => {
+    const id = routeIds[index];
+    const storedVersion = keyed.__routeStateVersions?.[id] ?? 0;
+    const version = getRouteStateVersion(route);
+    if (keyed.__routeStates[id] !== undefined && storedVersion !== version) {
+      const routeState = validateRouteState(
+        route,
+        readRouteState(route, keyed, id),
+      );
+      migrated = setRouteState(migrated ?? keyed, id, routeState, version);
+    }
+  });
+  return migrated;
+}
+
+/**
+ * Validate a route's stored navigation state with the route's state schema.
+ *
+ * Stored state may not match the schema, e.g. when the state shape changed
+ * in a deploy after the history entry was created. Such state is replaced
+ * by the result of the route's `onInvalidState`, or by undefined.
+ */
+export function validateRouteState(
+  route: InternalRouteDefinition,
+  state: unknown,
+): unknown {
+  const { stateSchema, onInvalidState } = route;
+  if (!stateSchema || state === undefined) {
+    return state;
+  }
+
+  let issues: readonly StandardSchemaIssue[];
+  if (typeof stateSchema === "function") {
+    try {
+      return stateSchema(state);
+    } catch (error) {
+      issues = [
+        { message: error instanceof Error ? error.message : String(error) },
+      ];
+    }
+  } else {
+    const result = validateSync(stateSchema, state, "State");
+    if (!result.issues) {
+      return result.value;
+    }
+    issues = result.issues;
+  }
+
+  return onInvalidState ? onInvalidState(state, issues) : undefined;
+}
@@ -0,0 +1,37 @@
+import type { InternalRouteDefinition, MatchedRoute } from "../types.js";
+import { matchRoutes } from "./matchRoutes.js";
+
+/**
+ * Whether a route that opted out of scrolling (`scroll: false`) is matched
+ * both before and after the navigation, e.g. when switching tabs of a settings page.
+ *
+ * @param currentUrl - URL of the entry being navigated away from
+ */
+export function keepsScrollPosition(
+  routes: InternalRouteDefinition[],
+  matched: MatchedRoute[],
+  currentUrl: string | null | undefined,
+): boolean {
+  if (!currentUrl) {
+    return false;
+  }
+  const currentMatched = matchRoutes(routes, new URL(currentUrl).pathname);
+  return matched.some(
+    (match, index) =>
+      match.route.scroll === false &&
+      currentMatched?.[index]?.route === match.route,
+  );
+}
+
+/**
+ * Resolve after the next animation frame (or task, where frames are unavailable).
+ */
+export function waitForNextFrame(): Promise<void> {
+  return new Promise((resolve) => {
+    if (typeof requestAnimationFrame === "function") {
+      requestAnimationFrame(() => resolve());
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
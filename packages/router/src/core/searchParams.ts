@@ -0,0 +1,73 @@
+import type { SearchParamsSchema } from "../route.js";
+import { type StandardSchemaIssue, validateSync } from "./standardSchema.js";
+
+/**
+ * Thrown when the URL's search params fail a route's `searchParams` schema.
+ * Rendered by the route's `errorComponent` like any other route error.
+ */
+export class SearchParamsError extends Error {
+  readonly issues: readonly StandardSchemaIssue[];
+
+  constructor(issues: readonly StandardSchemaIssue[]) {
+    super(
+      `Invalid search params: ${issues.map((issue) => issue.message).join(", ")}`,
+    );
+    this.name = "SearchParamsError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parse search params with a route's schema.
+ *
+ * Standard Schema validators receive an object of the search params, where
+ * a key that appears more than once maps to an array of its values.
+ */
+export function parseSearchParams(
+  schema: SearchParamsSchema<unknown>,
+  searchParams: URLSearchParams,
+): unknown {
+  if (typeof schema === "function") {
+    return schema(searchParams);
+  }
+
+  const result = validateSync(
+    schema,
+    toSearchObject(searchParams),
+    "Search params",
+  );
+  if (result.issues) {
+    throw new SearchParamsError(result.issues);
+  }
+  return result.value;
+}
+
+function toSearchObject(
+  searchParams: URLSearchParams,
+): Record<string, string | string[]> {
+  const search: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    search[key] = values.length === 1 ? values[0] : values;
+  }
+  return search;
+}
+
+/**
+ * Serialize a search object back to URL search params.
+ * Arrays become repeated keys, and null or undefined values are omitted.
+ */
+export function serializeSearchParams(search: unknown): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  if (search === null || typeof search !== "object") {
+    return searchParams;
+  }
+  for (const [key, value] of Object.entries(search)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        searchParams.append(key, String(item));
+      }
+    }
+  }
+  return searchParams;
+}
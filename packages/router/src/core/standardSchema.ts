@@ -0,0 +1,48 @@
+/**
+ * Minimal Standard Schema interface (https://standardschema.dev),
+ * implemented by validators such as Zod, Valibot and ArkType.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/**
+ * Result of a Standard Schema validation: the output value, or issues.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+/**
+ * A validation issue reported by a Standard Schema validator.
+ */
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+};
+
+/**
+ * Validate a value with a Standard Schema validator.
+ * Asynchronous validation is not supported, because the router needs
+ * the result while rendering.
+ *
+ * @param kind - What the schema validates, for the error message
+ */
+export function validateSync<Output>(
+  schema: StandardSchemaV1<unknown, Output>,
+  value: unknown,
+  kind: string,
+): StandardSchemaResult<Output> {
+  const result = schema["~standard"].validate(value);
+  if (result instanceof Promise) {
+    throw new TypeError(`${kind} schemas must validate synchronously`);
+  }
+  return result;
+}
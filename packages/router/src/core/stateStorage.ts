@@ -0,0 +1,117 @@
+import type { InternalRouteState } from "../types.js";
+import { setRouteState } from "./routeState.js";
+
+/**
+ * Storage that route state can be persisted to.
+ * `sessionStorage` and `localStorage` implement it; pass another
+ * implementation, e.g. an in-memory one, in tests.
+ */
+export type StateStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+/**
+ * Where to persist route state: the browser's `sessionStorage` or
+ * `localStorage`, or a custom storage.
+ */
+export type PersistStateOption =
+  | "sessionStorage"
+  | "localStorage"
+  | StateStorage;
+
+type PersistedRouteState = {
+  state: unknown;
+  version: number;
+};
+
+const STORAGE_KEY_PREFIX = "@funstack/router:state:";
+
+/**
+ * Get the storage key of a route's persisted state: the route's id and its
+ * params, so that e.g. "/users/1" and "/users/2" are stored separately.
+ */
+export function getStateStorageKey(
+  routeId: string,
+  params: Record<string, string>,
+): string {
+  const search = new URLSearchParams(
+    Object.entries(params).sort(([a], [b]) => a.localeCompare(b)),
+  ).toString();
+  return `${STORAGE_KEY_PREFIX}${routeId}${search ? `?${search}` : ""}`;
+}
+
+/**
+ * Resolve the storage to use. Web storage is unavailable on the server, and
+ * accessing it may throw, e.g. when cookies are blocked.
+ */
+function resolveStorage(persist: PersistStateOption): StateStorage | null {
+  if (typeof persist !== "string") {
+    return persist;
+  }
+  try {
+    return typeof window === "undefined" ? null : window[persist];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fill a route's missing state slot with the state persisted to storage,
+ * e.g. when the URL was opened in a new tab. State in the history entry
+ * always takes precedence.
+ */
+export function restorePersistedRouteState(
+  persist: PersistStateOption,
+  key: string,
+  internalState: InternalRouteState,
+  routeId: string,
+): InternalRouteState {
+  if (internalState.__routeStates[routeId] !== undefined) {
+    return internalState;
+  }
+
+  let persisted: PersistedRouteState | undefined;
+  try {
+    const item = resolveStorage(persist)?.getItem(key);
+    persisted = item ? (JSON.parse(item) as PersistedRouteState) : undefined;
+  } catch {
+    // Unparseable or unreadable state is treated as missing
+    return internalState;
+  }
+  if (persisted?.state === undefined) {
+    return internalState;
+  }
+  return setRouteState(
+    internalState,
+    routeId,
+    persisted.state,
+    persisted.version ?? 0,
+  );
+}
+
+/**
+ * Mirror a route's state to storage with its state version.
+ * Undefined state removes the persisted state.
+ * Storage errors (e.g. quota exceeded) are ignored, since the state is
+ * still stored in the history entry.
+ */
+export function persistRouteState(
+  persist: PersistStateOption,
+  key: string,
+  state: unknown,
+  version: number,
+): void {
+  try {
+    const storage = resolveStorage(persist);
+    if (state === undefined) {
+      storage?.removeItem(key);
+    } else {
+      const persisted: PersistedRouteState = { state, version };
+      storage?.setItem(key, JSON.stringify(persisted));
+    }
+  } catch {
+    // Ignored, see above
+  }
+}
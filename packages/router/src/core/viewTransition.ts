@@ -0,0 +1,62 @@
+import type { ViewTransitionDirection } from "./RouterAdapter.js";
+
+/**
+ * Attribute set on the root element during a view transition in browsers
+ * without view transition types.
+ */
+const directionAttribute = "data-view-transition-direction";
+
+/**
+ * The transition whose direction the root element's attribute holds.
+ */
+let directionTransition: ViewTransition | null = null;
+
+/**
+ * Whether `startViewTransition` accepts an options object with `types`.
+ * Browsers that support the callback form only (Chrome 111–124,
+ * Safari 18.0–18.1) throw when given options.
+ */
+function supportsViewTransitionTypes(): boolean {
+  return (
+    typeof ViewTransition !== "undefined" && "types" in ViewTransition.prototype
+  );
+}
+
+/**
+ * Start a view transition whose update callback applies a location change.
+ * The direction is exposed as a view transition type, so CSS can match it
+ * with `:active-view-transition-type(back)` and so on. Without support for
+ * types, it is set as the `data-view-transition-direction` attribute of the
+ * root element until the transition finishes instead.
+ *
+ * Returns false without calling `update` when View Transitions are unsupported.
+ */
+export function startViewTransition(
+  direction: ViewTransitionDirection,
+  update: () => Promise<void>,
+): boolean {
+  if (
+    typeof document === "undefined" ||
+    typeof document.startViewTransition !== "function"
+  ) {
+    return false;
+  }
+  if (supportsViewTransitionTypes()) {
+    document.startViewTransition({ update, types: [direction] });
+    return true;
+  }
+
+  const root = document.documentElement;
+  root.setAttribute(directionAttribute, direction);
+  const transition = document.startViewTransition(update);
+  directionTransition = transition;
+  const cleanup = () => {
+    // A later transition keeps its own direction
+    if (directionTransition === transition) {
+      directionTransition = null;
+      root.removeAttribute(directionAttribute);
+    }
+  };
+  transition.finished.then(cleanup, cleanup);
+  return true;
+}
@@ -35,6 +35,9 @@ export type UseBlockerOptions = {
  *
  * Note: This hook only handles SPA navigations (links, programmatic navigation).
  * For hard navigations (tab close, refresh), handle `beforeunload` separately.
+ * With `fallback="static-reload"`, where every navigation loads a page,
+ * `shouldBlock` also runs on `beforeunload`; the browser then shows its own
+ * dialog, and `confirm()` cannot be used.
  */
 export function useBlocker(options: UseBlockerOptions): void {
   const context = useContext(BlockerContext);
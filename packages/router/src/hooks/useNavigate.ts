@@ -1,16 +1,35 @@
-import { useContext } from "react";
+import { useCallback, useContext } from "react";
 import { RouterContext } from "../context/RouterContext.js";
+import { RouteContext } from "../context/RouteContext.js";
+import { resolvePath } from "../core/resolvePath.js";
 import type { NavigateOptions } from "../types.js";
 
 /**
  * Returns a function for programmatic navigation.
+ *
+ * Relative paths such as `"details"` or `"../edit"` resolve against the
+ * pathname matched by the calling route, or by the deepest matched route
+ * with `{ relative: "leaf" }`. Outside a route, paths are passed to the
+ * router unchanged.
  */
 export function useNavigate(): (to: string, options?: NavigateOptions) => void {
   const context = useContext(RouterContext);
+  const routeContext = useContext(RouteContext);
 
   if (!context) {
     throw new Error("useNavigate must be used within a Router");
   }
 
-  return context.navigate;
+  const { navigate } = context;
+  const absolutePath = routeContext?.absolutePath;
+  const leafAbsolutePath = routeContext?.leafAbsolutePath;
+
+  return useCallback(
+    (to: string, options?: NavigateOptions) => {
+      const base =
+        options?.relative === "leaf" ? leafAbsolutePath : absolutePath;
+      navigate(base === undefined ? to : resolvePath(to, base), options);
+    },
+    [navigate, absolutePath, leafAbsolutePath],
+  );
 }
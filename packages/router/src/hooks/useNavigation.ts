@@ -0,0 +1,58 @@
+import { useContext, useMemo } from "react";
+import { PendingNavigationContext } from "../context/PendingNavigationContext.js";
+import type { MatchedRoute } from "../types.js";
+
+export type UseNavigationResult =
+  | {
+      /** No navigation is in progress */
+      state: "idle";
+      url: null;
+      navigationType: null;
+      matchedRoutes: null;
+    }
+  | {
+      /** A navigation is waiting for loaders of the destination */
+      state: "loading";
+      /** The destination URL */
+      url: URL;
+      /** How the navigation was triggered */
+      navigationType: NavigationType;
+      /** Routes matched by the destination URL */
+      matchedRoutes: MatchedRoute[];
+    };
+
+/**
+ * Returns the state of the navigation in progress.
+ *
+ * A navigation is `loading` from the `navigate` event until
+ * `navigatesuccess` or `navigateerror` fires.
+ *
+ * @example
+ * ```tsx
+ * function GlobalProgressBar() {
+ *   const navigation = useNavigation();
+ *   return navigation.state === "loading" ? <ProgressBar /> : null;
+ * }
+ * ```
+ */
+export function useNavigation(): UseNavigationResult {
+  const context = useContext(PendingNavigationContext);
+
+  if (!context) {
+    throw new Error("useNavigation must be used within a Router");
+  }
+
+  const { pendingNavigation } = context;
+
+  return useMemo(() => {
+    if (pendingNavigation === null) {
+      return {
+        state: "idle",
+        url: null,
+        navigationType: null,
+        matchedRoutes: null,
+      };
+    }
+    return { state: "loading", ...pendingNavigation };
+  }, [pendingNavigation]);
+}
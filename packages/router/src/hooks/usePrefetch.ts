@@ -0,0 +1,32 @@
+import { useContext } from "react";
+import { RouterContext } from "../context/RouterContext.js";
+
+/**
+ * Returns a function that runs the loaders of the routes matching a URL
+ * before navigating to it, e.g. when a link is hovered or becomes visible.
+ *
+ * When a navigation to the URL follows, its loaders reuse the prefetched results
+ * instead of running again. Unused results expire after the Router's
+ * `prefetchExpiryMs`.
+ *
+ * @example
+ * ```tsx
+ * function UserLink({ id }: { id: string }) {
+ *   const prefetch = usePrefetch();
+ *   return (
+ *     <a href={`/users/${id}`} onMouseEnter={() => prefetch(`/users/${id}`)}>
+ *       User {id}
+ *     </a>
+ *   );
+ * }
+ * ```
+ */
+export function usePrefetch(): (to: string) => void {
+  const context = useContext(RouterContext);
+
+  if (!context) {
+    throw new Error("usePrefetch must be used within a Router");
+  }
+
+  return context.prefetch;
+}
@@ -0,0 +1,68 @@
+import { useCallback, useContext } from "react";
+import { RouterContext } from "../context/RouterContext.js";
+import type { RouteDefinition } from "../route.js";
+import type { MatchedRoute } from "../types.js";
+
+/**
+ * Selects which matched routes to revalidate: a route definition,
+ * or a predicate called with each matched route.
+ */
+export type RevalidateTarget =
+  | RouteDefinition
+  | ((match: MatchedRoute) => boolean);
+
+export type UseRevalidateResult = {
+  /**
+   * Re-run loaders of the current location and re-render with fresh data.
+   * Revalidates every matched route when no target is given.
+   * The returned promise resolves once the new loader results have settled.
+   */
+  revalidate: (target?: RevalidateTarget) => Promise<void>;
+  /** Whether revalidated loaders are still pending */
+  isRevalidating: boolean;
+};
+
+/**
+ * Hook to re-run route loaders without navigating, e.g. after a mutation.
+ *
+ * The current UI stays visible while revalidated data is loading.
+ *
+ * @example
+ * ```tsx
+ * function UserPage({ data }: RouteComponentPropsWithData<...>) {
+ *   const { revalidate, isRevalidating } = useRevalidate();
+ *
+ *   const handleSave = async () => {
+ *     await saveUser();
+ *     await revalidate(userRoute);
+ *   };
+ *
+ *   return <button onClick={handleSave} disabled={isRevalidating}>Save</button>;
+ * }
+ * ```
+ */
+export function useRevalidate(): UseRevalidateResult {
+  const context = useContext(RouterContext);
+
+  if (!context) {
+    throw new Error("useRevalidate must be used within a Router");
+  }
+
+  const { revalidateLoaders, isRevalidating } = context;
+
+  const revalidate = useCallback(
+    (target?: RevalidateTarget): Promise<void> =>
+      revalidateLoaders((match) => {
+        if (target === undefined) {
+          return true;
+        }
+        if (typeof target === "function") {
+          return target(match);
+        }
+        return (match.route as unknown) === target;
+      }),
+    [revalidateLoaders],
+  );
+
+  return { revalidate, isRevalidating };
+}
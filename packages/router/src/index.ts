@@ -3,15 +3,44 @@
 // Components
 export { Router, type RouterProps } from "./Router.js";
 export { Outlet } from "./Outlet.js";
+export { Link, type LinkProps, type LinkStatus } from "./Link.js";
 
 // Hooks
 export { useNavigate } from "./hooks/useNavigate.js";
 export { useLocation } from "./hooks/useLocation.js";
 export { useSearchParams } from "./hooks/useSearchParams.js";
 export { useBlocker, type UseBlockerOptions } from "./hooks/useBlocker.js";
+export {
+  useNavigation,
+  type UseNavigationResult,
+} from "./hooks/useNavigation.js";
+export { usePrefetch } from "./hooks/usePrefetch.js";
+export {
+  useRevalidate,
+  type RevalidateTarget,
+  type UseRevalidateResult,
+} from "./hooks/useRevalidate.js";
 
 // Route Definition Helpers
 export { route, routeState } from "./route.js";
+export { buildPath, type BuildPathOptions } from "./buildPath.js";
+
+// Search Params
+export { SearchParamsError } from "./core/searchParams.js";
+export type {
+  StandardSchemaV1,
+  StandardSchemaIssue,
+} from "./core/standardSchema.js";
+
+// Adapters
+export {
+  MemoryAdapter,
+  type MemoryAdapterOptions,
+  type MemoryEntryInit,
+} from "./core/MemoryAdapter.js";
+
+// Server-Side Rendering
+export { createLoaderDataCollector } from "./core/hydration.js";
 
 // Types
 export type {
@@ -20,10 +49,21 @@ export type {
   NavigateOptions,
   Location,
   OnNavigateCallback,
+  RelativeTo,
   FallbackMode,
 } from "./types.js";
 
-export type { LocationEntry } from "./core/RouterAdapter.js";
+// Types for implementing adapters are exported from @funstack/router/adapter
+
+export type { PersistStateOption, StateStorage } from "./core/stateStorage.js";
+
+export type { LoaderCache, LoaderCacheLimits } from "./core/loaderCache.js";
+
+export type {
+  HydrationData,
+  LoaderDataCollector,
+  SerializedLoaderResult,
+} from "./core/hydration.js";
 
 export type {
   LoaderArgs,
@@ -31,4 +71,10 @@ export type {
   PathParams,
   RouteComponentProps,
   RouteComponentPropsWithData,
+  RouteSearchProps,
+  SearchParamsSchema,
+  RouteStateOptions,
+  StateSchema,
+  RouteErrorProps,
+  RoutePendingProps,
 } from "./route.js";
@@ -44,6 +44,11 @@ interface NavigateEvent extends Event {
   scroll(): void;
 }
 
+interface NavigationCurrentEntryChangeEvent extends Event {
+  readonly navigationType: "push" | "replace" | "reload" | "traverse" | null;
+  readonly from: NavigationHistoryEntry;
+}
+
 interface NavigationInterceptOptions {
   handler?: () => Promise<void>;
   precommitHandler?: () => Promise<void>;
@@ -79,6 +84,11 @@ interface Navigation extends EventTarget {
     listener: (event: NavigateEvent) => void,
     options?: AddEventListenerOptions,
   ): void;
+  addEventListener(
+    type: "currententrychange",
+    listener: (event: NavigationCurrentEntryChangeEvent) => void,
+    options?: AddEventListenerOptions,
+  ): void;
   addEventListener(
     type: "navigatesuccess" | "navigateerror" | "currententrychange",
     listener: (event: Event) => void,
@@ -1,12 +1,18 @@
 import type { ComponentType } from "react";
+import type {
+  StandardSchemaIssue,
+  StandardSchemaV1,
+} from "./core/standardSchema.js";
+import type { PersistStateOption } from "./core/stateStorage.js";
 
 const routeDefinitionSymbol = Symbol();
+const parentDataSymbol = Symbol();
 
 /**
  * Extracts parameter names from a path pattern.
  * E.g., "/users/:id/posts/:postId" -> "id" | "postId"
  */
-type ExtractParams<T extends string> =
+export type ExtractParams<T extends string> =
   T extends `${string}:${infer Param}/${infer Rest}`
     ? Param | ExtractParams<`/${Rest}`>
     : T extends `${string}:${infer Param}`
@@ -21,26 +27,58 @@ export type PathParams<T extends string> = [ExtractParams<T>] extends [never]
   ? Record<string, never>
   : { [K in ExtractParams<T>]: string };
 
+/**
+ * Parses a route's search params: a function receiving the URL's
+ * `URLSearchParams`, or a Standard Schema validator (e.g. Zod, Valibot)
+ * receiving them as an object, with repeated keys as arrays of strings.
+ */
+export type SearchParamsSchema<TSearch> =
+  | ((searchParams: URLSearchParams) => TSearch)
+  | StandardSchemaV1<unknown, TSearch>;
+
 /**
  * Arguments passed to loader functions.
+ * TParentData is the type of the nearest ancestor route's loader result.
+ * TSearch is the type of the route's parsed search params.
  */
-export type LoaderArgs = {
+export type LoaderArgs<TParentData = unknown, TSearch = unknown> = {
   /** Extracted path parameters */
   params: Record<string, string>;
+  /** Search params parsed by the route's `searchParams` schema (undefined without one) */
+  search: TSearch;
   /** Request object with URL and headers */
   request: Request;
   /** AbortSignal for cancellation on navigation */
   signal: AbortSignal;
+  /**
+   * Result of the nearest ancestor route's loader, as passed to that route's
+   * component (a Promise for async loaders). Ancestors without a loader, such
+   * as layout routes, are skipped; undefined when no ancestor has a loader.
+   * Loaders run in parallel; await this to load after the ancestor.
+   */
+  parentData: TParentData;
+};
+
+/**
+ * Props for routes with a `searchParams` schema.
+ */
+export type RouteSearchProps<TSearch> = {
+  /** Search params parsed by the route's `searchParams` schema */
+  search: TSearch;
+  /** Serialize new search params to the URL (replaces the current history entry) */
+  setSearch: (search: TSearch | ((prev: TSearch) => TSearch)) => void;
 };
 
 /**
  * Props for route components without loader.
- * Includes navigation state management props.
+ * Includes navigation state management props, and search props
+ * when TSearch is given.
  */
 export type RouteComponentProps<
   TParams extends Record<string, string>,
   TState = undefined,
-> = {
+  TSearch = undefined,
+> = ([TSearch] extends [undefined] ? unknown : RouteSearchProps<TSearch>) & {
   /** Extracted path parameters */
   params: TParams;
   /** Current navigation state for this route (undefined on first visit) */
@@ -67,28 +105,70 @@ export type RouteComponentPropsWithData<
   TParams extends Record<string, string>,
   TData,
   TState = undefined,
-> = RouteComponentProps<TParams, TState> & {
+  TSearch = undefined,
+> = RouteComponentProps<TParams, TState, TSearch> & {
   /** Data returned from the loader */
   data: TData;
 };
 
+/**
+ * Props for route error components.
+ * Rendered in place of the route's subtree when it throws during rendering
+ * or when one of its loaders fails.
+ */
+export type RouteErrorProps<TParams extends Record<string, string>> = {
+  /** The error that was thrown */
+  error: unknown;
+  /** Extracted path parameters */
+  params: TParams;
+  /** Re-run the loaders of this route and its child routes, and render them again */
+  retry: () => void;
+};
+
+/**
+ * Props for route pending components.
+ * Rendered while the route's subtree is suspended (e.g. waiting for loader data).
+ */
+export type RoutePendingProps<TParams extends Record<string, string>> = {
+  /** Extracted path parameters */
+  params: TParams;
+};
+
 /**
  * Route definition created by the `route` helper function.
+ * TParentData is the type of parent data its loader expects.
+ * TPath is the route's path pattern.
  */
-export interface OpaqueRouteDefinition {
+export interface OpaqueRouteDefinition<
+  TParentData = never,
+  TPath extends string = string,
+> {
   [routeDefinitionSymbol]: never;
-  path: string;
+  [parentDataSymbol]: (parentData: TParentData) => void;
+  path: TPath;
   children?: RouteDefinition[];
 }
 
 /**
  * Any route definition defined by user.
+ * TParentData is the type of the parent route's loader result,
+ * which the route's loader must accept.
  */
-export type RouteDefinition =
-  | OpaqueRouteDefinition
+export type RouteDefinition<TParentData = never> =
+  | OpaqueRouteDefinition<TParentData>
   | {
+      [parentDataSymbol]?: never;
       path: string;
+      id?: string;
+      searchParams?: SearchParamsSchema<unknown>;
       component?: ComponentType<object>;
+      errorComponent?: ComponentType<RouteErrorProps<Record<string, string>>>;
+      pendingComponent?: ComponentType<
+        RoutePendingProps<Record<string, string>>
+      >;
+      pendingMs?: number;
+      pendingMinMs?: number;
+      scroll?: boolean;
       children?: RouteDefinition[];
     };
 
@@ -96,27 +176,81 @@ export type RouteDefinition =
  * Route definition with loader - infers TData from loader return type.
  * TPath is used to infer params type from the path pattern.
  * TState is the type of navigation state for this route.
+ * TSearch is inferred from the `searchParams` schema.
  */
-type RouteWithLoader<TPath extends string, TData, TState> = {
+type RouteWithLoader<
+  TPath extends string,
+  TData,
+  TState,
+  TParentData,
+  TSearch,
+> = {
   path: TPath;
-  loader: (args: LoaderArgs) => TData;
+  /**
+   * Stable id keying this route's navigation state, e.g. to keep state when
+   * the route moves in the tree. Default: the route's full path pattern
+   */
+  id?: string;
+  /** Parses the URL's search params into the `search` prop and loader arg */
+  searchParams?: SearchParamsSchema<TSearch>;
+  loader: (args: LoaderArgs<TParentData, TSearch>) => TData;
   component: ComponentType<
-    RouteComponentPropsWithData<PathParams<TPath>, TData, TState>
+    RouteComponentPropsWithData<PathParams<TPath>, TData, TState, TSearch>
   >;
+  errorComponent?: ComponentType<RouteErrorProps<PathParams<TPath>>>;
+  /** Component used as the Suspense fallback around this route's subtree */
+  pendingComponent?: ComponentType<RoutePendingProps<PathParams<TPath>>>;
+  /** Delay before showing the pending component, in milliseconds (default: 0) */
+  pendingMs?: number;
+  /** Minimum time the pending component stays visible once shown, in milliseconds (default: 0) */
+  pendingMinMs?: number;
+  /**
+   * Set to false to keep the scroll position when navigating between
+   * URLs that both match this route (e.g. tabs). Default: true
+   */
+  scroll?: boolean;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  children?: RouteDefinition[];
+  children?: RouteDefinition<TData>[];
 };
 
 /**
  * Route definition without loader.
  * TPath is used to infer params type from the path pattern.
  * TState is the type of navigation state for this route.
+ * TSearch is inferred from the `searchParams` schema.
+ * TParentData is inferred from the children: their loaders receive the
+ * loader result of this route's nearest ancestor with a loader.
  */
-type RouteWithoutLoader<TPath extends string, TState> = {
+type RouteWithoutLoader<
+  TPath extends string,
+  TState,
+  TSearch,
+  TParentData = unknown,
+> = {
   path: TPath;
-  component?: ComponentType<RouteComponentProps<PathParams<TPath>, TState>>;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  children?: RouteDefinition[];
+  /**
+   * Stable id keying this route's navigation state, e.g. to keep state when
+   * the route moves in the tree. Default: the route's full path pattern
+   */
+  id?: string;
+  /** Parses the URL's search params into the `search` prop */
+  searchParams?: SearchParamsSchema<TSearch>;
+  component?: ComponentType<
+    RouteComponentProps<PathParams<TPath>, TState, TSearch>
+  >;
+  errorComponent?: ComponentType<RouteErrorProps<PathParams<TPath>>>;
+  /** Component used as the Suspense fallback around this route's subtree */
+  pendingComponent?: ComponentType<RoutePendingProps<PathParams<TPath>>>;
+  /** Delay before showing the pending component, in milliseconds (default: 0) */
+  pendingMs?: number;
+  /** Minimum time the pending component stays visible once shown, in milliseconds (default: 0) */
+  pendingMinMs?: number;
+  /**
+   * Set to false to keep the scroll position when navigating between
+   * URLs that both match this route (e.g. tabs). Default: true
+   */
+  scroll?: boolean;
+  children?: RouteDefinition<TParentData>[];
 };
 
 /**
@@ -145,31 +279,121 @@ type RouteWithoutLoader<TPath extends string, TState> = {
  *   path: "about",
  *   component: AboutPage, // Must accept { params: {}, state, setState, resetState }
  * });
+ *
+ * // Route with error component for loader and render errors
+ * route({
+ *   path: "users/:userId",
+ *   loader: ({ params }) => fetchUser(params.userId),
+ *   component: UserDetail,
+ *   errorComponent: UserError, // Receives { error, params: { userId: string }, retry }
+ * });
+ *
+ * // Route with pending component shown while its data is loading
+ * route({
+ *   path: "users/:userId",
+ *   loader: ({ params }) => fetchUser(params.userId),
+ *   component: UserDetail,
+ *   pendingComponent: UserSkeleton, // Receives { params: { userId: string } }
+ *   pendingMs: 200, // Don't show for fast loads
+ *   pendingMinMs: 500, // Avoid flashing once shown
+ * });
+ *
+ * // Child route whose loader uses the parent's loader result
+ * route({
+ *   path: "orgs/:orgId",
+ *   loader: ({ params }) => fetchOrg(params.orgId),
+ *   component: OrgLayout,
+ *   children: [
+ *     route({
+ *       path: "projects/:projectId",
+ *       loader: async ({ params, parentData }: LoaderArgs<Promise<Org>>) =>
+ *         fetchProject((await parentData).id, params.projectId),
+ *       component: ProjectDetail,
+ *     }),
+ *   ],
+ * });
  * ```
  */
 // Overload with loader
-export function route<TPath extends string, TData>(
-  definition: RouteWithLoader<TPath, TData, undefined>,
-): OpaqueRouteDefinition;
+export function route<
+  TPath extends string,
+  TData,
+  TParentData = unknown,
+  TSearch = undefined,
+>(
+  definition: RouteWithLoader<TPath, TData, undefined, TParentData, TSearch>,
+): OpaqueRouteDefinition<TParentData, NoInfer<TPath>>;
 // Overload without loader
-export function route<TPath extends string>(
-  definition: RouteWithoutLoader<TPath, undefined>,
-): OpaqueRouteDefinition;
+export function route<
+  TPath extends string,
+  TSearch = undefined,
+  TParentData = unknown,
+>(
+  definition: RouteWithoutLoader<TPath, undefined, TSearch, TParentData>,
+): OpaqueRouteDefinition<TParentData, NoInfer<TPath>>;
 // Implementation
-export function route<TPath extends string, TData>(
+export function route<TPath extends string, TData, TParentData, TSearch>(
   definition:
-    | RouteWithLoader<TPath, TData, undefined>
-    | RouteWithoutLoader<TPath, undefined>,
-): OpaqueRouteDefinition {
-  return definition as unknown as OpaqueRouteDefinition;
+    | RouteWithLoader<TPath, TData, undefined, TParentData, TSearch>
+    | RouteWithoutLoader<TPath, undefined, TSearch, TParentData>,
+): OpaqueRouteDefinition<TParentData, TPath> {
+  return definition as unknown as OpaqueRouteDefinition<TParentData, TPath>;
 }
 
+/**
+ * Validates a route's stored navigation state: a function returning the
+ * state (throwing when it is invalid), or a Standard Schema validator.
+ */
+export type StateSchema<TState> =
+  | ((state: unknown) => TState)
+  | StandardSchemaV1<unknown, TState>;
+
+/**
+ * Options for `routeState` to validate and migrate stored navigation state on read.
+ */
+export type RouteStateOptions<TState> = {
+  /** Schema that stored state must match; invalid state is read as undefined */
+  schema?: StateSchema<TState>;
+  /**
+   * Called with stored state that does not match the schema.
+   * Returns the state to use instead, e.g. migrated from an older shape.
+   */
+  onInvalidState?: (
+    state: unknown,
+    issues: readonly StandardSchemaIssue[],
+  ) => TState | undefined;
+  /**
+   * Version of the state shape, recorded with the stored state (default: 0).
+   * Increase it when the shape changes, and handle older state in `migrate`.
+   */
+  version?: number;
+  /**
+   * Called with state stored with another `version`. Returns the state in the
+   * current shape, which is written back to the history entry.
+   * Without it, state stored with another version is read as undefined.
+   */
+  migrate?: (oldState: unknown, fromVersion: number) => TState | undefined;
+  /**
+   * Mirror the state to `sessionStorage`, `localStorage` or a custom storage,
+   * keyed by the route and its params. Persisted state is restored when the
+   * history entry has none, e.g. when the URL is opened in a new tab.
+   * The state must be JSON-serializable.
+   */
+  persist?: PersistStateOption;
+};
+
 /**
  * Helper function for creating type-safe route definitions with navigation state.
  *
  * Use this curried function when your route component needs to manage navigation state.
  * The state is tied to the navigation history entry and persists across back/forward navigation.
  *
+ * Stored state is only typed, not checked, unless a `schema` is given.
+ * With a schema, the state type is inferred from it, and stored state that
+ * doesn't match is read as undefined or passed to `onInvalidState`.
+ * Give the state shape a `version` to `migrate` state stored by older versions.
+ * Set `persist` to restore state from storage when the history entry has none.
+ *
  * @example
  * ```typescript
  * // Route with navigation state
@@ -186,21 +410,57 @@ export function route<TPath extends string, TData>(
  *   loader: async () => fetchProducts(),
  *   component: ProductList, // Receives { data, params, state, setState, resetState }
  * });
+ *
+ * // Route with state migrated from an older shape
+ * type TabState = { tabs: string[] }; // version 1 stored { tab: string }
+ * routeState<TabState>({
+ *   version: 2,
+ *   migrate: (oldState, fromVersion) =>
+ *     fromVersion === 1 ? { tabs: [(oldState as { tab: string }).tab] } : undefined,
+ * })({
+ *   path: "dashboard",
+ *   component: Dashboard,
+ * });
+ *
+ * // Route with state restored in new tabs
+ * routeState<FilterState>({ persist: "sessionStorage" })({
+ *   path: "search",
+ *   component: SearchPage,
+ * });
+ *
+ * // Route with state validated on read
+ * routeState({
+ *   schema: z.object({ tab: z.enum(["posts", "likes"]) }),
+ *   onInvalidState: (state) => (isLegacyTabState(state) ? migrate(state) : undefined),
+ * })({
+ *   path: "users/:userId",
+ *   component: UserPage, // Receives { state: { tab: "posts" | "likes" } | undefined, ... }
+ * });
  * ```
  */
-export function routeState<TState>(): {
-  <TPath extends string, TData>(
-    definition: RouteWithLoader<TPath, TData, TState>,
-  ): OpaqueRouteDefinition;
-  <TPath extends string>(
-    definition: RouteWithoutLoader<TPath, TState>,
-  ): OpaqueRouteDefinition;
+export function routeState<TState>(options?: RouteStateOptions<TState>): {
+  <TPath extends string, TData, TParentData = unknown, TSearch = undefined>(
+    definition: RouteWithLoader<TPath, TData, TState, TParentData, TSearch>,
+  ): OpaqueRouteDefinition<TParentData, NoInfer<TPath>>;
+  <TPath extends string, TSearch = undefined, TParentData = unknown>(
+    definition: RouteWithoutLoader<TPath, TState, TSearch, TParentData>,
+  ): OpaqueRouteDefinition<TParentData, NoInfer<TPath>>;
 } {
-  return function <TPath extends string, TData>(
+  return function <TPath extends string, TData, TParentData, TSearch>(
     definition:
-      | RouteWithLoader<TPath, TData, TState>
-      | RouteWithoutLoader<TPath, TState>,
-  ): OpaqueRouteDefinition {
-    return definition as unknown as OpaqueRouteDefinition;
+      | RouteWithLoader<TPath, TData, TState, TParentData, TSearch>
+      | RouteWithoutLoader<TPath, TState, TSearch, TParentData>,
+  ): OpaqueRouteDefinition<TParentData, TPath> {
+    const withOptions = options
+      ? {
+          ...definition,
+          stateSchema: options.schema,
+          onInvalidState: options.onInvalidState,
+          stateVersion: options.version,
+          migrateState: options.migrate,
+          persistState: options.persist,
+        }
+      : definition;
+    return withOptions as unknown as OpaqueRouteDefinition<TParentData, TPath>;
   };
 }
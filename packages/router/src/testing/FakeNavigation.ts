@@ -0,0 +1,485 @@
+/**
+ * A history entry of a FakeNavigation, like NavigationHistoryEntry.
+ * Dispatches `dispose` when it is removed from the history.
+ */
+export class FakeNavigationHistoryEntry extends EventTarget {
+  readonly key: string;
+  readonly id: string;
+  readonly url: string;
+  readonly sameDocument = true;
+  #navigation: FakeNavigation;
+  #state: unknown;
+
+  constructor(
+    navigation: FakeNavigation,
+    url: string,
+    key: string,
+    state: unknown,
+  ) {
+    super();
+    this.#navigation = navigation;
+    this.url = url;
+    this.key = key;
+    this.id = crypto.randomUUID();
+    this.#state = state;
+  }
+
+  /**
+   * Index in the navigation's entries, or -1 once disposed.
+   */
+  get index(): number {
+    return this.#navigation.entries().indexOf(this);
+  }
+
+  /**
+   * A copy of the entry's state, like `NavigationHistoryEntry.getState()`.
+   */
+  getState(): unknown {
+    return structuredClone(this.#state);
+  }
+
+  /** @internal Used by FakeNavigation's `updateCurrentEntry` and `reload` */
+  setState(state: unknown): void {
+    this.#state = state;
+  }
+}
+
+export type FakeNavigationResult = {
+  committed: Promise<FakeNavigationHistoryEntry>;
+  finished: Promise<FakeNavigationHistoryEntry>;
+};
+
+type NavigateInit = {
+  navigationType: NavigationType;
+  url: URL;
+  destination: FakeNavigationHistoryEntry | null;
+  state: unknown;
+  info: unknown;
+  userInitiated: boolean;
+};
+
+type OngoingNavigation = {
+  controller: AbortController;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * In-memory implementation of the Navigation API (`window.navigation`) for tests.
+ *
+ * Follows the spec for same-document navigations: `navigate`, `reload`,
+ * `traverseTo`, `back` and `forward` dispatch a cancelable `navigate` event
+ * whose `intercept()` handlers run after the entry is committed, then
+ * `navigatesuccess` or `navigateerror`. `currententrychange` is dispatched on
+ * commit and by `updateCurrentEntry`, entries removed from the history
+ * dispatch `dispose`, and a new navigation aborts the one in progress.
+ *
+ * Navigations that are not intercepted and are neither fragment navigations
+ * nor traversals load another document in browsers, cross-origin ones
+ * included. There are no documents to load here: such a navigation does not
+ * commit, its promises never settle like in a page that unloads, and its URL
+ * is recorded as `documentLoadUrl`. Scrolling and focus are not emulated.
+ */
+export class FakeNavigation extends EventTarget {
+  #entries: FakeNavigationHistoryEntry[];
+  #currentIndex = 0;
+  #transition: NavigationTransition | null = null;
+  #ongoing: OngoingNavigation | null = null;
+  #documentLoadUrl: string | null = null;
+
+  /**
+   * @param url - URL of the initial entry (default: `http://localhost/`)
+   */
+  constructor(url = "http://localhost/") {
+    super();
+    this.#entries = [
+      new FakeNavigationHistoryEntry(
+        this,
+        new URL(url).href,
+        crypto.randomUUID(),
+        undefined,
+      ),
+    ];
+  }
+
+  get currentEntry(): FakeNavigationHistoryEntry {
+    return this.#entries[this.#currentIndex]!;
+  }
+
+  get transition(): NavigationTransition | null {
+    return this.#transition;
+  }
+
+  /**
+   * URL of the document that the last navigation left to the browser would
+   * have loaded, or null if there was none.
+   */
+  get documentLoadUrl(): string | null {
+    return this.#documentLoadUrl;
+  }
+
+  get canGoBack(): boolean {
+    return this.#currentIndex > 0;
+  }
+
+  get canGoForward(): boolean {
+    return this.#currentIndex < this.#entries.length - 1;
+  }
+
+  entries(): FakeNavigationHistoryEntry[] {
+    return [...this.#entries];
+  }
+
+  navigate(
+    url: string,
+    options?: NavigationNavigateOptions,
+  ): FakeNavigationResult {
+    let destinationUrl: URL;
+    let state: unknown;
+    try {
+      destinationUrl = new URL(url, this.currentEntry.url);
+      state = structuredClone(options?.state);
+    } catch (error) {
+      return rejectedResult(error);
+    }
+    return this.#navigate({
+      navigationType: options?.history === "replace" ? "replace" : "push",
+      url: destinationUrl,
+      destination: null,
+      state,
+      info: options?.info,
+      userInitiated: false,
+    });
+  }
+
+  reload(options?: NavigationReloadOptions): FakeNavigationResult {
+    let state: unknown;
+    try {
+      state =
+        options && "state" in options
+          ? structuredClone(options.state)
+          : this.currentEntry.getState();
+    } catch (error) {
+      return rejectedResult(error);
+    }
+    return this.#navigate({
+      navigationType: "reload",
+      url: new URL(this.currentEntry.url),
+      destination: null,
+      state,
+      info: options?.info,
+      userInitiated: false,
+    });
+  }
+
+  traverseTo(key: string, options?: NavigationOptions): FakeNavigationResult {
+    const destination = this.#entries.find((entry) => entry.key === key);
+    if (!destination) {
+      return rejectedResult(
+        new DOMException("No entry with the key", "InvalidStateError"),
+      );
+    }
+    if (destination === this.currentEntry) {
+      return {
+        committed: Promise.resolve(destination),
+        finished: Promise.resolve(destination),
+      };
+    }
+    return this.#navigate({
+      navigationType: "traverse",
+      url: new URL(destination.url),
+      destination,
+      state: undefined,
+      info: options?.info,
+      userInitiated: false,
+    });
+  }
+
+  back(options?: NavigationOptions): FakeNavigationResult {
+    const entry = this.#entries[this.#currentIndex - 1];
+    if (!entry) {
+      return rejectedResult(
+        new DOMException("Cannot go back", "InvalidStateError"),
+      );
+    }
+    return this.traverseTo(entry.key, options);
+  }
+
+  forward(options?: NavigationOptions): FakeNavigationResult {
+    const entry = this.#entries[this.#currentIndex + 1];
+    if (!entry) {
+      return rejectedResult(
+        new DOMException("Cannot go forward", "InvalidStateError"),
+      );
+    }
+    return this.traverseTo(entry.key, options);
+  }
+
+  updateCurrentEntry(options: NavigationUpdateCurrentEntryOptions): void {
+    const state = structuredClone(options.state);
+    const from = this.currentEntry;
+    from.setState(state);
+    this.dispatchEvent(createCurrentEntryChangeEvent(null, from));
+  }
+
+  /**
+   * Navigate like a click on a link would: a `navigate` event with
+   * `userInitiated` set. Used by `installFakeNavigation` for link clicks.
+   */
+  navigateFromUser(url: string): FakeNavigationResult {
+    return this.#navigate({
+      navigationType: "push",
+      url: new URL(url, this.currentEntry.url),
+      destination: null,
+      state: undefined,
+      info: undefined,
+      userInitiated: true,
+    });
+  }
+
+  #navigate(init: NavigateInit): FakeNavigationResult {
+    // A new navigation aborts the one in progress
+    this.#abortOngoing(
+      new DOMException("Navigation was aborted", "AbortError"),
+    );
+
+    const committed = withResolvers<FakeNavigationHistoryEntry>();
+    const finished = withResolvers<FakeNavigationHistoryEntry>();
+    // Like the browser, these rejections are not reported as unhandled
+    committed.promise.catch(() => {});
+    finished.promise.catch(() => {});
+
+    const controller = new AbortController();
+    const ongoing: OngoingNavigation = {
+      controller,
+      reject: (error) => {
+        controller.abort(error);
+        committed.reject(error);
+        finished.reject(error);
+        this.#transition = null;
+        this.dispatchEvent(createNavigateErrorEvent(error));
+      },
+    };
+    this.#ongoing = ongoing;
+
+    const handlers: (() => Promise<void>)[] = [];
+    const dispatch = { active: true, intercepted: false };
+    const event = this.#createNavigateEvent(
+      init,
+      controller.signal,
+      handlers,
+      dispatch,
+    );
+    const notCanceled = this.dispatchEvent(event);
+    dispatch.active = false;
+    if (this.#ongoing !== ongoing) {
+      // Another navigation started from an event listener
+      return { committed: committed.promise, finished: finished.promise };
+    }
+    if (!notCanceled) {
+      this.#abortOngoing(
+        new DOMException("Navigation was aborted", "AbortError"),
+      );
+      return { committed: committed.promise, finished: finished.promise };
+    }
+    if (
+      !dispatch.intercepted &&
+      !event.hashChange &&
+      init.navigationType !== "traverse"
+    ) {
+      // Another document would be loaded, unloading this one
+      this.#ongoing = null;
+      this.#documentLoadUrl = init.url.href;
+      return { committed: committed.promise, finished: finished.promise };
+    }
+
+    const from = this.currentEntry;
+    const entry = this.#commit(init);
+    committed.resolve(entry);
+    this.#transition = {
+      navigationType: init.navigationType,
+      from,
+      finished: finished.promise,
+    } as unknown as NavigationTransition;
+    this.dispatchEvent(
+      createCurrentEntryChangeEvent(init.navigationType, from),
+    );
+
+    Promise.all(handlers.map((handler) => handler())).then(
+      () => {
+        if (this.#ongoing !== ongoing) {
+          return;
+        }
+        this.#ongoing = null;
+        this.#transition = null;
+        finished.resolve(entry);
+        this.dispatchEvent(new Event("navigatesuccess"));
+      },
+      (error: unknown) => {
+        if (this.#ongoing === ongoing) {
+          this.#abortOngoing(error);
+        }
+      },
+    );
+    return { committed: committed.promise, finished: finished.promise };
+  }
+
+  #abortOngoing(error: unknown): void {
+    const ongoing = this.#ongoing;
+    this.#ongoing = null;
+    ongoing?.reject(error);
+  }
+
+  /**
+   * Update the entries for a navigation and return the new current entry.
+   * Entries removed from the history are disposed.
+   */
+  #commit(init: NavigateInit): FakeNavigationHistoryEntry {
+    const current = this.currentEntry;
+    let disposed: FakeNavigationHistoryEntry[] = [];
+    let entry: FakeNavigationHistoryEntry;
+    switch (init.navigationType) {
+      case "push":
+        entry = new FakeNavigationHistoryEntry(
+          this,
+          init.url.href,
+          crypto.randomUUID(),
+          init.state,
+        );
+        disposed = this.#entries.splice(
+          this.#currentIndex + 1,
+          Infinity,
+          entry,
+        );
+        this.#currentIndex += 1;
+        break;
+      case "replace":
+        // The replacing entry takes over the key, but not the id
+        entry = new FakeNavigationHistoryEntry(
+          this,
+          init.url.href,
+          current.key,
+          init.state,
+        );
+        disposed = this.#entries.splice(this.#currentIndex, 1, entry);
+        break;
+      case "reload":
+        entry = current;
+        entry.setState(init.state);
+        break;
+      case "traverse":
+        entry = init.destination!;
+        this.#currentIndex = this.#entries.indexOf(entry);
+        break;
+    }
+    for (const disposedEntry of disposed) {
+      disposedEntry.dispatchEvent(new Event("dispose"));
+    }
+    return entry;
+  }
+
+  #createNavigateEvent(
+    init: NavigateInit,
+    signal: AbortSignal,
+    handlers: (() => Promise<void>)[],
+    dispatch: { active: boolean; intercepted: boolean },
+  ): NavigateEvent {
+    const current = new URL(this.currentEntry.url);
+    const canIntercept = init.url.origin === current.origin;
+    const { destination } = init;
+    const hashChange =
+      init.navigationType !== "reload" &&
+      init.url.hash !== current.hash &&
+      withoutHash(init.url) === withoutHash(current);
+
+    const event = new Event("navigate", { cancelable: true });
+    return Object.assign(event, {
+      navigationType: init.navigationType,
+      canIntercept,
+      userInitiated: init.userInitiated,
+      hashChange,
+      destination: {
+        url: init.url.href,
+        key: destination?.key ?? "",
+        id: destination?.id ?? "",
+        index: destination?.index ?? -1,
+        sameDocument: hashChange || init.navigationType === "traverse",
+        getState: () =>
+          destination ? destination.getState() : structuredClone(init.state),
+      },
+      signal,
+      formData: null,
+      downloadRequest: null,
+      info: init.info,
+      hasUAVisualTransition: false,
+      sourceElement: null,
+      intercept(options?: NavigationInterceptOptions) {
+        if (!canIntercept) {
+          throw new DOMException(
+            "Cannot intercept a cross-origin navigation",
+            "SecurityError",
+          );
+        }
+        if (!dispatch.active) {
+          throw new DOMException(
+            "intercept() must be called during the navigate event",
+            "InvalidStateError",
+          );
+        }
+        dispatch.intercepted = true;
+        const handler = options?.handler;
+        if (handler) {
+          handlers.push(async () => {
+            await handler();
+          });
+        }
+      },
+      // Scrolling is not emulated
+      scroll() {},
+    });
+  }
+}
+
+/**
+ * `Promise.withResolvers()`, which ES2022 lacks.
+ */
+function withResolvers<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function withoutHash(url: URL): string {
+  const copy = new URL(url);
+  copy.hash = "";
+  return copy.href;
+}
+
+function rejectedResult(error: unknown): FakeNavigationResult {
+  const promise = Promise.reject(error);
+  promise.catch(() => {});
+  return {
+    committed: promise as Promise<FakeNavigationHistoryEntry>,
+    finished: promise as Promise<FakeNavigationHistoryEntry>,
+  };
+}
+
+function createCurrentEntryChangeEvent(
+  navigationType: NavigationType | null,
+  from: FakeNavigationHistoryEntry,
+): Event {
+  return Object.assign(new Event("currententrychange"), {
+    navigationType,
+    from,
+  });
+}
+
+function createNavigateErrorEvent(error: unknown): Event {
+  return Object.assign(new Event("navigateerror"), {
+    error,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
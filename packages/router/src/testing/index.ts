@@ -0,0 +1,18 @@
+// FUNSTACK Router testing utilities - @funstack/router/testing
+
+// Navigation API fake
+export {
+  FakeNavigation,
+  FakeNavigationHistoryEntry,
+  type FakeNavigationResult,
+} from "./FakeNavigation.js";
+export { installFakeNavigation, uninstallFakeNavigation } from "./install.js";
+
+// Rendering
+export {
+  renderWithRouter,
+  waitForNavigation,
+  waitForLoaders,
+  type RenderWithRouterOptions,
+  type RenderWithRouterResult,
+} from "./renderWithRouter.js";
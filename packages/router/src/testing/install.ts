@@ -0,0 +1,81 @@
+import { getNavigatingLink } from "../core/linkClick.js";
+import { FakeNavigation } from "./FakeNavigation.js";
+
+type Installation = {
+  navigation: FakeNavigation;
+  // `globalThis.navigation` before the fake was installed
+  previous: unknown;
+  hadPrevious: boolean;
+  controller: AbortController;
+};
+
+let installed: Installation | null = null;
+
+/**
+ * Install a FakeNavigation as `globalThis.navigation`, replacing a fake
+ * installed before. Clicks on same-origin links navigate it, like they fire
+ * the Navigation API's `navigate` event in browsers.
+ *
+ * @param url - URL of the initial entry (default: `http://localhost/`)
+ */
+export function installFakeNavigation(url?: string): FakeNavigation {
+  uninstallFakeNavigation();
+
+  const navigation = new FakeNavigation(url);
+  const global = globalThis as Record<string, unknown>;
+  const controller = new AbortController();
+  installed = {
+    navigation,
+    previous: global.navigation,
+    hadPrevious: "navigation" in global,
+    controller,
+  };
+  global.navigation = navigation;
+  if (typeof document !== "undefined") {
+    document.addEventListener(
+      "click",
+      (event) => handleClick(navigation, event),
+      { signal: controller.signal },
+    );
+  }
+  return navigation;
+}
+
+/**
+ * Remove the installed FakeNavigation, restoring `globalThis.navigation`.
+ * Does nothing when no fake is installed.
+ */
+export function uninstallFakeNavigation(): void {
+  if (!installed) {
+    return;
+  }
+  const { previous, hadPrevious, controller } = installed;
+  installed = null;
+  controller.abort();
+  const global = globalThis as Record<string, unknown>;
+  if (hadPrevious) {
+    global.navigation = previous;
+  } else {
+    delete global.navigation;
+  }
+}
+
+/**
+ * Navigate for plain left clicks on same-origin links that nothing else
+ * handled, instead of the document navigation that jsdom does not implement.
+ */
+function handleClick(navigation: FakeNavigation, event: MouseEvent): void {
+  const anchor = getNavigatingLink(event);
+  if (!anchor) {
+    return;
+  }
+  const url = new URL(
+    anchor.getAttribute("href")!,
+    navigation.currentEntry.url,
+  );
+  if (url.origin !== new URL(navigation.currentEntry.url).origin) {
+    return;
+  }
+  event.preventDefault();
+  navigation.navigateFromUser(url.href);
+}
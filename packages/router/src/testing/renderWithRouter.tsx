@@ -0,0 +1,119 @@
+import { act, render, type RenderResult } from "@testing-library/react";
+import { Router, type RouterProps } from "../Router.js";
+import type { RouteDefinition } from "../route.js";
+import type { NavigateOptions } from "../types.js";
+import { type LoaderCache, isPromiseLike } from "../core/loaderCache.js";
+import type { FakeNavigation } from "./FakeNavigation.js";
+import { installFakeNavigation } from "./install.js";
+
+export type RenderWithRouterOptions = Omit<RouterProps, "routes" | "url"> & {
+  /**
+   * URL to start at, absolute or relative to `http://localhost/`
+   * (default: `http://localhost/`).
+   */
+  url?: string;
+};
+
+export type RenderWithRouterResult = RenderResult & {
+  /** The FakeNavigation installed for the Router */
+  navigation: FakeNavigation;
+  /** The Router's loader cache */
+  loaderCache: LoaderCache;
+  /**
+   * Navigate and wait until the navigation finishes, including the loaders
+   * of the destination. Rejects when the navigation is canceled or fails.
+   */
+  navigate(
+    to: string,
+    options?: Pick<NavigateOptions, "replace" | "state" | "info">,
+  ): Promise<void>;
+  /** Wait until the navigation in progress, if any, finishes */
+  waitForNavigation(): Promise<void>;
+  /** Wait until the Router's pending loaders settle */
+  waitForLoaders(): Promise<void>;
+};
+
+/**
+ * Render routes in a Router at a URL, with a FakeNavigation installed as
+ * `globalThis.navigation`. The fake stays installed until the next call or
+ * `uninstallFakeNavigation()`.
+ *
+ * @example
+ * const { navigate, waitForLoaders } = await renderWithRouter(routes, {
+ *   url: "/users/1",
+ * });
+ * await waitForLoaders();
+ * expect(screen.getByText("User 1")).toBeInTheDocument();
+ * await navigate("/users/2");
+ */
+export async function renderWithRouter(
+  routes: RouteDefinition[],
+  options: RenderWithRouterOptions = {},
+): Promise<RenderWithRouterResult> {
+  const { url = "/", loaderCache = new Map(), ...routerProps } = options;
+  const navigation = installFakeNavigation(
+    new URL(url, "http://localhost/").href,
+  );
+  // Rendered in an awaited act() so that a suspended first render is retried
+  let result!: RenderResult;
+  await act(async () => {
+    result = render(
+      <Router routes={routes} loaderCache={loaderCache} {...routerProps} />,
+    );
+  });
+
+  return {
+    ...result,
+    navigation,
+    loaderCache,
+    navigate: (to, navigateOptions) =>
+      act(async () => {
+        await navigation.navigate(to, {
+          history: navigateOptions?.replace ? "replace" : "push",
+          state: navigateOptions?.state,
+          info: navigateOptions?.info,
+        }).finished;
+      }),
+    waitForNavigation: () => waitForNavigation(navigation),
+    waitForLoaders: () => waitForLoaders(loaderCache),
+  };
+}
+
+/**
+ * Wait until the navigation in progress, if any, finishes, whether it
+ * succeeds or fails.
+ */
+export async function waitForNavigation(
+  navigation: FakeNavigation,
+): Promise<void> {
+  await act(async () => {
+    while (navigation.transition) {
+      await navigation.transition.finished.catch(() => {});
+    }
+  });
+}
+
+/**
+ * Wait until the pending loader results in a Router's loader cache settle,
+ * including those of loaders started by rendering their results.
+ * Pending results are Promises or any other thenables loaders return.
+ */
+export async function waitForLoaders(loaderCache: LoaderCache): Promise<void> {
+  const awaited = new Set<unknown>();
+  for (;;) {
+    const pending: Promise<unknown>[] = [];
+    for (const [, value] of loaderCache.entries()) {
+      if (isPromiseLike(value) && !awaited.has(value)) {
+        awaited.add(value);
+        // Adopt thenables, which may not implement `finally` or `catch`
+        pending.push(Promise.resolve(value));
+      }
+    }
+    if (pending.length === 0) {
+      return;
+    }
+    await act(async () => {
+      await Promise.allSettled(pending);
+    });
+  }
+}
@@ -1,14 +1,33 @@
 import type { ComponentType } from "react";
-import type { LoaderArgs, RouteDefinition } from "./route.js";
+import type {
+  LoaderArgs,
+  RouteDefinition,
+  RouteStateOptions,
+  SearchParamsSchema,
+} from "./route.js";
 
 const InternalRouteDefinitionSymbol = Symbol();
 
 /**
  * Internal structure for storing per-route state in NavigationHistoryEntry.
- * Each route in the matched stack gets its own state slot indexed by match position.
+ * Each route in the matched stack gets its own state slot keyed by route id
+ * (its `id`, or its full path pattern), so that state stays with its route
+ * when the route tree changes.
+ * The state version of the route that wrote each slot is stored alongside it
+ * (missing for state written before versions were recorded, read as 0).
  */
 export type InternalRouteState = {
+  __routeStates: Record<string, unknown>;
+  __routeStateVersions?: Record<string, number>;
+};
+
+/**
+ * Former structure of InternalRouteState, with state slots indexed by
+ * match position. Still read from existing history entries.
+ */
+export type LegacyInternalRouteState = {
   __routeStates: (unknown | undefined)[];
+  __routeStateVersions?: (number | undefined)[];
 };
 
 /**
@@ -19,12 +38,16 @@ export type InternalRouteDefinition = {
   [InternalRouteDefinitionSymbol]: never;
   /** Path pattern to match (e.g., "users/:id") */
   path: string;
+  /** Stable id keying this route's navigation state (default: full path pattern) */
+  id?: string;
   /** Child routes for nested routing */
   children?: InternalRouteDefinition[];
 
   // Note: `loader` and `component` may both exist or both not exist.
   // Also, `unknown`s may actually be more specific types. They are guaranteed
   // to be the same type by the `route` helper function.
+  /** Parses the URL's search params for the loader and component */
+  searchParams?: SearchParamsSchema<unknown>;
   /** Data loader function for this route */
   loader?: (args: LoaderArgs) => unknown;
   /** Component to render when this route matches */
@@ -36,7 +59,33 @@ export type InternalRouteDefinition = {
     setStateSync?: (state: unknown | ((prev: unknown) => unknown)) => void;
     resetState?: () => void;
     info?: unknown;
+    search?: unknown;
+    setSearch?: (search: unknown | ((prev: unknown) => unknown)) => void;
+  }>;
+  /** Component to render when this route's subtree throws */
+  errorComponent?: ComponentType<{
+    error: unknown;
+    params: Record<string, string>;
+    retry: () => void;
   }>;
+  /** Component to render while this route's subtree is suspended */
+  pendingComponent?: ComponentType<{ params: Record<string, string> }>;
+  /** Delay before showing the pending component, in milliseconds */
+  pendingMs?: number;
+  /** Minimum time the pending component stays visible, in milliseconds */
+  pendingMinMs?: number;
+  /** Set to false to keep the scroll position when navigating within this route */
+  scroll?: boolean;
+  /** Schema validating stored navigation state (set by `routeState`) */
+  stateSchema?: RouteStateOptions<unknown>["schema"];
+  /** Replacement for stored state that fails `stateSchema` (set by `routeState`) */
+  onInvalidState?: RouteStateOptions<unknown>["onInvalidState"];
+  /** Version of this route's state shape (set by `routeState`) */
+  stateVersion?: number;
+  /** Migrates state stored with another version (set by `routeState`) */
+  migrateState?: RouteStateOptions<unknown>["migrate"];
+  /** Storage mirroring this route's state (set by `routeState`) */
+  persistState?: RouteStateOptions<unknown>["persist"];
 };
 
 /**
@@ -82,8 +131,32 @@ export type NavigateOptions = {
   state?: unknown;
   /** Ephemeral info for this navigation only (not persisted in history) */
   info?: unknown;
+  /**
+   * Set to false to keep the scroll position after this navigation,
+   * or true to scroll even within a route with `scroll: false`.
+   */
+  scroll?: boolean;
+  /**
+   * Animate this navigation with a view transition.
+   * Overrides the Router's `viewTransition` prop.
+   */
+  viewTransition?: boolean;
+  /**
+   * What a relative `to` such as `"details"` or `"../edit"` resolves against:
+   * the pathname matched by the route calling `navigate` (`"route"`, default)
+   * or by the deepest matched route (`"leaf"`).
+   */
+  relative?: RelativeTo;
 };
 
+/**
+ * Base for resolving relative navigation targets.
+ *
+ * - `"route"`: the pathname matched by the current route
+ * - `"leaf"`: the pathname matched by the deepest matched route
+ */
+export type RelativeTo = "route" | "leaf";
+
 /**
  * Location object representing current URL state.
  */
@@ -110,7 +183,11 @@ export type OnNavigateCallback = (
  *
  * - `"none"` (default): Render nothing when Navigation API is unavailable
  * - `"static"`: Render matched routes without navigation capabilities (MPA behavior)
+ * - `"static-reload"`: Like `"static"`, but `navigate()` loads the target page
+ * - `"history"`: Emulate the Navigation API with the History API (SPA behavior)
  */
 export type FallbackMode =
   | "none" // Default: render nothing when Navigation API unavailable
-  | "static"; // Render matched routes without navigation capabilities
+  | "static" // Render matched routes without navigation capabilities
+  | "static-reload" // Like "static", with navigate() doing full page loads
+  | "history"; // Navigate with pushState/popstate
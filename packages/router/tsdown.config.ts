@@ -1,9 +1,13 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: {
+    index: "src/index.ts",
+    testing: "src/testing/index.ts",
+    adapter: "src/adapter/index.ts",
+  },
   format: ["esm"],
   dts: true,
   clean: true,
-  external: ["react"],
+  external: ["react", "@testing-library/react"],
 });